@@ -8,6 +8,10 @@
  *   GONG_ACCESS_KEY - Shared team Gong API access key
  *   GONG_ACCESS_KEY_SECRET - Shared team Gong API secret
  *   ALLOWED_EMAIL_DOMAINS - Comma-separated list of allowed email domains (e.g., "sentry.io,getsentry.com")
+ *   GONG_OAUTH_* - Not supported here: the handler rejects OAuth app credentials until it has a
+ *     per-user token store (see the check below)
+ *   GONG_API_BASE_URL, GONG_REQUEST_TIMEOUT_MS, GONG_MAX_RETRIES, GONG_RESPONSE_VALIDATION,
+ *   GONG_DEFAULT_HEADERS - Optional client settings (see src/config.ts)
  *
  * Authentication Model:
  *   - Requires Google ID token in Authorization header
@@ -17,6 +21,8 @@
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js';
+import { gongAuthFromEnv, gongConfigFromEnv } from '../dist/config.js';
+import { OAuthAuth } from '../dist/gong-auth.js';
 import { GongClient } from '../dist/gong-client.js';
 import { createGongMcpServer } from '../dist/server.js';
 import { verifyApiToken } from './auth.js';
@@ -77,11 +83,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     // 2. Validate Gong credentials
-    const accessKey = process.env.GONG_ACCESS_KEY;
-    const accessKeySecret = process.env.GONG_ACCESS_KEY_SECRET;
+    const auth = gongAuthFromEnv();
 
-    if (!accessKey || !accessKeySecret) {
-      console.error('Missing GONG_ACCESS_KEY or GONG_ACCESS_KEY_SECRET environment variables');
+    if (!auth) {
+      console.error('Missing GONG_ACCESS_KEY/GONG_ACCESS_KEY_SECRET or GONG_OAUTH_* environment variables');
       res.status(500).json({
         error: 'Server Configuration Error',
         message: 'Gong API credentials not configured',
@@ -89,8 +94,22 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return;
     }
 
+    // OAuth from the environment means one shared refresh token for every caller, and Gong
+    // rotates it on the first refresh, so later requests would fail. Acting per user needs
+    // loadTokens/saveTokens backed by a token store keyed on the verified email, plus a Gong
+    // consent step in /api/auth to obtain each user's first refresh token. Neither exists in
+    // this deployment yet; that is separate follow-up work, so OAuth is refused here until then.
+    if (auth instanceof OAuthAuth) {
+      console.error('GONG_OAUTH_* credentials are not supported by the HTTP handler');
+      res.status(500).json({
+        error: 'Server Configuration Error',
+        message: 'Gong OAuth app credentials are not supported on the HTTP deployment. Configure GONG_ACCESS_KEY and GONG_ACCESS_KEY_SECRET instead.',
+      });
+      return;
+    }
+
     // 3. Create per-request GongClient instance
-    const gongClient = new GongClient({ accessKey, accessKeySecret });
+    const gongClient = new GongClient({ ...gongConfigFromEnv(), auth });
 
     // 4. Create MCP server via factory
     const mcpServer = createGongMcpServer(gongClient);
@@ -8,11 +8,108 @@
  * - Searching transcripts for specific mentions (e.g., "New Relic")
  * - Testing all available tools
  * - Generating a detailed test report
+ *
+ * Pass --mock (or set GONG_MOCK=1) to run against the offline mock Gong API
+ * in mock-gong-server.ts instead of production Gong - no credentials needed.
  */
 
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import assert from "node:assert/strict";
 import * as fs from "fs";
+import {
+  startMockGongServer,
+  type MockFixtures,
+  type MockGongServer,
+  type MockGongServerOptions,
+} from "./mock-gong-server.js";
+import { buildTimeline, emailInvolvesContacts, externalContacts } from "./src/account-timeline.js";
+import { bucketActivity, bucketRange, bucketStart, toCsv } from "./src/activity-trends.js";
+import { aggregateAnalytics, analyzeCall } from "./src/call-analytics.js";
+import { gongConfigFromEnv } from "./src/config.js";
+import { assessDealRisk, daysBetween, summarizeDealEngagement } from "./src/deal-brief.js";
+import { groupThreads, matchesEmailFilter, normalizeEmailBody, threadSubject } from "./src/email-threads.js";
+import { OAuthAuth, type GongOAuthTokens } from "./src/gong-auth.js";
+import {
+  GongClient,
+  type GongAnsweredScorecard,
+  type GongCall,
+  type GongClientOptions,
+  type GongEmail,
+  type GongParty,
+  type GongRetryInfo,
+  type GongScorecard,
+  type GongTranscript,
+  type GongUser,
+} from "./src/gong-client.js";
+import {
+  createGongApiError,
+  GongApiError,
+  GongAuthError,
+  GongNotFoundError,
+  GongPermissionError,
+  GongRateLimitError,
+  GongResponseValidationError,
+  GongServerError,
+  GongValidationError,
+} from "./src/gong-errors.js";
+import { normalizeInteractionStats } from "./src/interaction-stats.js";
+import { averageByQuestion, averageByRep } from "./src/scorecard-stats.js";
+import { createGongMcpServer } from "./src/server.js";
+import { resolveSpeakers } from "./src/speakers.js";
+import { compareMetric, previousPeriod, rollupTeam } from "./src/team-stats.js";
+import { extractTrackerExcerpts, matchTrackers } from "./src/tracker-excerpts.js";
+import { formatClock, formatTranscript } from "./src/transcript-format.js";
+import { parseSearchQuery, searchTranscript } from "./src/transcript-search.js";
+import { chunkTranscript, filterTranscript } from "./src/transcript-window.js";
+import { buildTeamTree, findUsers, flattenTeam, fullName } from "./src/user-directory.js";
+
+const useMock = process.argv.includes("--mock") || process.env.GONG_MOCK === "1";
+
+// Hand-written call for the logic tests: a rep (speaker 1) and a buyer (speaker 2)
+const SAMPLE_TRANSCRIPT: GongTranscript = {
+  callId: "sample-call",
+  transcript: [
+    {
+      speakerId: "1",
+      topic: "Intro",
+      sentences: [
+        { start: 0, end: 4_000, text: "Thanks for joining today." },
+        { start: 4_000, end: 9_000, text: "How are you monitoring things now?" },
+      ],
+    },
+    {
+      speakerId: "2",
+      topic: "Competition",
+      sentences: [
+        { start: 10_000, end: 16_000, text: "We use New Relic for APM." },
+        { start: 16_000, end: 20_000, text: "Datadog is on the shortlist." },
+      ],
+    },
+    {
+      speakerId: "1",
+      topic: "Pricing",
+      sentences: [{ start: 22_000, end: 30_000, text: "Our pricing is per seat, and relicensing is free." }],
+    },
+  ],
+};
+
+const SAMPLE_PARTIES: GongParty[] = [
+  { id: "p1", name: "Dana Rivera", title: "Account Executive", emailAddress: "dana@seller.com", userId: "u1", speakerId: "1", affiliation: "Internal" },
+  { id: "p2", name: "Sam Lee", title: "VP Engineering", emailAddress: "sam@acme.com", speakerId: "2", affiliation: "External" },
+];
+
+/**
+ * Minimal call record for the logic tests
+ */
+function sampleCall(id: string, started: string, extra: Partial<GongCall> = {}): GongCall {
+  return { id, started, duration: 1_800, url: `https://app.gong.io/call?id=${id}`, ...extra };
+}
+
+function sampleUser(id: string, firstName: string, lastName: string, managerId?: string, active = true): GongUser {
+  return { id, firstName, lastName, emailAddress: `${firstName}.${lastName}@seller.com`.toLowerCase(), managerId, active };
+}
 
 interface TestResult {
   name: string;
@@ -25,6 +122,7 @@ interface TestResult {
 class GongMCPTester {
   private client: Client;
   private results: TestResult[] = [];
+  private mock?: MockGongServer;
 
   constructor() {
     this.client = new Client(
@@ -41,6 +139,18 @@ class GongMCPTester {
   async connect() {
     console.log("🔌 Connecting to Gong MCP Server...\n");
 
+    if (useMock) {
+      this.mock = await startMockGongServer();
+      process.env.GONG_API_BASE_URL = this.mock.baseUrl;
+      process.env.GONG_ACCESS_KEY = "mock";
+      process.env.GONG_ACCESS_KEY_SECRET = "mock";
+      // OAuth credentials take precedence over the access key, so they would bypass the mock
+      for (const name of Object.keys(process.env).filter((name) => name.startsWith("GONG_OAUTH_"))) {
+        delete process.env[name];
+      }
+      console.log(`🧪 Using mock Gong API at ${this.mock.baseUrl}\n`);
+    }
+
     if (!process.env.GONG_ACCESS_KEY || !process.env.GONG_ACCESS_KEY_SECRET) {
       throw new Error("GONG_ACCESS_KEY and GONG_ACCESS_KEY_SECRET must be set");
     }
@@ -103,6 +213,31 @@ class GongMCPTester {
     return result;
   }
 
+  /**
+   * Mock mode only: edit the fixtures for the length of a test, then put them back
+   */
+  async withMockFixtures<T>(edit: (fixtures: MockFixtures) => void, fn: () => Promise<T>): Promise<T> {
+    const fixtures = this.mock!.fixtures;
+    const original = structuredClone(fixtures);
+    edit(fixtures);
+    try {
+      return await fn();
+    } finally {
+      Object.assign(fixtures, original);
+    }
+  }
+
+  /**
+   * Mock mode only: edit one fixture call for the length of a test
+   */
+  async withMockCall<T>(
+    callId: string,
+    edit: (call: MockFixtures["calls"][number]) => void,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    return this.withMockFixtures((fixtures) => edit(fixtures.calls.find((c) => c.id === callId)!), fn);
+  }
+
   // Calculate date range for last 2 months
   getDateRange() {
     const now = new Date();
@@ -211,8 +346,386 @@ class GongMCPTester {
       }
 
       console.log(`\n📊 New Relic Search Results: ${newRelicMentions} mentions found in ${transcriptResults.length} calls analyzed\n`);
+
+      // Test 4a: Speakers are labelled from the call's parties
+      await this.runTest("Get transcript with speaker labels", async () => {
+        const transcript = await this.callTool("gong_get_transcript", { call_id: calls[0].id });
+        assert.ok(transcript.speakers?.length > 0, JSON.stringify(transcript));
+        for (const speaker of transcript.speakers) {
+          assert.ok(transcript.transcript_formatted.includes(`[${speaker.label}`), speaker.label);
+        }
+        if (this.mock) {
+          const parties = this.mock.fixtures.calls.find((c) => c.id === calls[0].id)!.parties;
+          for (const speaker of transcript.speakers) {
+            const party = parties.find((p) => p.speakerId === speaker.speaker_id)!;
+            assert.equal(speaker.label, `${party.name} (${party.title}, ${party.affiliation})`);
+          }
+        }
+        console.log(`   Speakers: ${transcript.speakers.map((s: any) => s.label).join("; ")}`);
+        return transcript;
+      });
+
+      if (this.mock) {
+        // Test 4a (mock): a speaker with no matching party
+        await this.runTest("Get transcript with an unknown speaker", async () => {
+          const mockCall = this.mock!.fixtures.calls.find((c) => c.id === calls[0].id)!;
+          const unknownId = mockCall.transcript[0].speakerId;
+          return this.withMockCall(
+            calls[0].id,
+            (call) => {
+              call.parties = call.parties.filter((p) => p.speakerId !== unknownId);
+            },
+            async () => {
+              const transcript = await this.callTool("gong_get_transcript", { call_id: calls[0].id });
+              const speaker = transcript.speakers.find((s: any) => s.speaker_id === unknownId);
+              assert.deepEqual(
+                { label: speaker.label, affiliation: speaker.affiliation },
+                { label: "Unknown speaker A", affiliation: "Unknown" }
+              );
+              assert.ok(transcript.transcript_formatted.startsWith("[Unknown speaker A"), transcript.transcript_formatted);
+              return transcript;
+            }
+          );
+        });
+      }
+    }
+
+    // Test 4b: Transcript filters, chunking and missing transcripts
+    if (calls.length > 0) {
+      const callId = calls[0].id;
+
+      await this.runTest("Get transcript filtered by time, topic and speaker", async () => {
+        const full = await this.callTool("gong_get_transcript", { call_id: callId, output: "raw" });
+        const topic = full.available_topics[0];
+
+        const window = await this.callTool("gong_get_transcript", { call_id: callId, output: "raw", start_seconds: 10, end_seconds: 60 });
+        const windowStarts = window.transcript_raw.flatMap((e: any) => e.sentences.map((s: any) => s.start));
+        assert.ok(windowStarts.length > 0 && windowStarts.every((start: number) => start >= 10_000 && start < 60_000), String(windowStarts));
+
+        const byTopic = await this.callTool("gong_get_transcript", { call_id: callId, output: "raw", topic: topic.toUpperCase() });
+        assert.ok(byTopic.transcript_raw.length > 0 && byTopic.transcript_raw.every((e: any) => e.topic === topic), topic);
+
+        const external = new Set(full.speakers.filter((s: any) => s.affiliation === "External").map((s: any) => s.speaker_id));
+        const bySpeaker = await this.callTool("gong_get_transcript", { call_id: callId, output: "raw", speaker: "External" });
+        assert.ok(bySpeaker.transcript_raw.length > 0 && bySpeaker.transcript_raw.every((e: any) => external.has(e.speakerId)));
+
+        const empty = await this.callTool("gong_get_transcript", { call_id: callId, start_seconds: 1_000_000 });
+        assert.deepEqual(empty.chunk, { number: 1, total_chunks: 0, note: "No sentences match these filters" });
+        assert.equal(empty.transcript_formatted, undefined);
+        return window;
+      });
+
+      await this.runTest("Get transcript in chunks with a continuation token", async () => {
+        const full = await this.callTool("gong_get_transcript", { call_id: callId, output: "raw" });
+        const sentenceCount = (transcript: any) =>
+          transcript.transcript_raw.reduce((sum: number, e: any) => sum + e.sentences.length, 0);
+
+        const chunks: any[] = [];
+        let token: string | undefined;
+        do {
+          const chunk = await this.callTool("gong_get_transcript", {
+            call_id: callId,
+            ...(token ? { continuation_token: token } : { output: "raw", max_chars: 400 }),
+          });
+          chunks.push(chunk);
+          token = chunk.continuation_token;
+        } while (token && chunks.length < 100);
+
+        assert.ok(chunks.length > 1, "expected the call to span several chunks");
+        assert.deepEqual(chunks.map((c) => c.chunk.number), chunks.map((_, i) => i + 1));
+        assert.ok(chunks.every((c) => c.chunk.total_chunks === chunks.length));
+        assert.equal(chunks.reduce((sum, c) => sum + sentenceCount(c), 0), sentenceCount(full));
+        console.log(`   ${chunks.length} chunks of ~400 characters`);
+        return chunks[0];
+      });
+
+      if (this.mock) {
+        await this.runTest("Get transcript for a call with no transcript", async () =>
+          this.withMockCall(
+            callId,
+            (call) => {
+              call.transcript = [];
+            },
+            async () => {
+              const result = await this.callTool("gong_get_transcript", { call_id: callId });
+              assert.match(result, /^Error getting transcript: No transcript for call/);
+              return result;
+            }
+          )
+        );
+      }
+
+      await this.runTest("Get transcript for an unknown call ID", async () => {
+        const result = await this.callTool("gong_get_transcript", { call_id: "0000000000000000000" });
+        assert.equal(typeof result, "string");
+        assert.match(result, /^Error getting transcript/);
+        return result;
+      });
     }
 
+    // Test 4c: Transcript output formats
+    if (calls.length > 1) {
+      await this.runTest("Get transcripts as SRT, WebVTT and Markdown", async () => {
+        const srt = await this.callTool("gong_get_transcript", { call_id: calls[0].id, format: "srt", max_chars: 400 });
+        assert.equal(srt.format, "srt");
+        assert.match(srt.transcript_formatted, /^1\n\d{2}:\d{2}:\d{2},\d{3} --> \d{2}:\d{2}:\d{2},\d{3}\n/);
+
+        // Cue numbers carry on across chunks
+        const next = await this.callTool("gong_get_transcript", { call_id: calls[0].id, continuation_token: srt.continuation_token });
+        const firstCue = Number(next.chunk.sentences.split("-")[0]);
+        assert.ok(next.transcript_formatted.startsWith(`${firstCue}\n`), next.transcript_formatted.slice(0, 40));
+
+        const vtt = await this.callTool("gong_get_transcript", { call_id: calls[0].id, format: "vtt" });
+        assert.match(vtt.transcript_formatted, /^WEBVTT\n\n1\n\d{2}:\d{2}:\d{2}\.\d{3} --> /);
+
+        const batch = await this.callTool("gong_get_transcripts", {
+          call_ids: [calls[0].id, calls[1].id, "0000000000000000000"],
+          format: "markdown",
+        });
+        assert.equal(batch.transcripts.length, 2);
+        assert.ok(batch.transcripts.every((t: any) => t.transcript_formatted.startsWith("## ")));
+        assert.deepEqual(batch.missing_call_ids, ["0000000000000000000"]);
+        return batch;
+      });
+    }
+
+    // Test 4d: Conversation analytics across calls
+    if (calls.length > 0) {
+      const callIds = calls.slice(0, 3).map((c: any) => c.id);
+
+      await this.runTest("Get call analytics", async () => {
+        const analytics = await this.callTool("gong_get_call_analytics", { call_ids: [...callIds, "0000000000000000000"] });
+        assert.equal(analytics.aggregate.calls_analyzed, callIds.length, JSON.stringify(analytics).slice(0, 300));
+        assert.deepEqual(analytics.calls.map((c: any) => c.call_id).sort(), [...callIds].sort());
+        assert.deepEqual(analytics.missing_call_ids, ["0000000000000000000"]);
+        for (const call of analytics.calls) {
+          const shares = Object.values(call.talk_share_percent) as number[];
+          assert.ok(Math.abs(shares.reduce((sum, share) => sum + share, 0) - 100) <= 1, JSON.stringify(call.talk_share_percent));
+        }
+        assert.ok(analytics.aggregate.reps.length > 0);
+
+        const aggregateOnly = await this.callTool("gong_get_call_analytics", { call_ids: callIds, include_per_call: false });
+        assert.equal(aggregateOnly.calls, undefined);
+        console.log(`   Reps: ${analytics.aggregate.reps.map((r: any) => `${r.name} ${r.avg_talk_ratio_percent}%`).join(", ")}`);
+        return analytics;
+      });
+
+      await this.runTest("Get call analytics for calls without transcripts", async () => {
+        const result = await this.callTool("gong_get_call_analytics", { call_ids: ["0000000000000000000"] });
+        assert.equal(result.aggregate.calls_analyzed, 0, JSON.stringify(result));
+        assert.deepEqual(result.calls, []);
+        assert.deepEqual(result.missing_call_ids, ["0000000000000000000"]);
+        return result;
+      });
+    }
+
+    // Test 4e: Server-side transcript search for "New Relic"
+    await this.runTest("Search transcripts for 'New Relic'", async () => {
+      const search = await this.callTool("gong_search_transcripts", {
+        query: '"New Relic"',
+        from_date: dateRange.from,
+        to_date: dateRange.to,
+      });
+      console.log(`   Scanned ${search.search_info?.transcripts_scanned || 0} transcripts, ${search.search_info?.total_matches || 0} matches`);
+      search.matches?.slice(0, 2).forEach((match: any) => {
+        console.log(`   📝 [${match.timestamp}] ${match.speaker}: "${match.sentence}"`);
+      });
+      return search;
+    });
+
+    await this.runTest("Search transcripts across pages scans the same calls", async () => {
+      const first = await this.callTool("gong_search_transcripts", { query: "pricing", page_size: 1 });
+      assert.ok(first.next_cursor, JSON.stringify(first.search_info));
+
+      // A call recorded after the first page must not shift the default range of the next one
+      const nextPage = () => this.callTool("gong_search_transcripts", { query: "pricing", page_size: 1, cursor: first.next_cursor });
+      const second = this.mock
+        ? await this.withMockFixtures((fixtures) => {
+            const pricingCall = fixtures.calls.find((c) => c.transcript.some((m) => m.sentences.some((s) => /pricing/i.test(s.text))))!;
+            fixtures.calls.push({ ...structuredClone(pricingCall), id: "9999999999999999999", started: new Date().toISOString() });
+          }, nextPage)
+        : await nextPage();
+      assert.deepEqual(second.search_info, first.search_info);
+      assert.notDeepEqual(second.matches, first.matches);
+
+      const invalid = await this.callTool("gong_search_transcripts", { query: "pricing", cursor: "not-a-cursor" });
+      assert.match(invalid, /^Error searching transcripts: Invalid cursor/);
+      return second;
+    });
+
+    // Test 4f: Transcript search over a date range with no calls
+    await this.runTest("Search transcripts in an empty date range", async () => {
+      const search = await this.callTool("gong_search_transcripts", {
+        query: "pricing",
+        from_date: "2001-01-01T00:00:00Z",
+        to_date: "2001-01-31T00:00:00Z",
+      });
+      assert.equal(search.search_info?.calls_in_scope, 0, JSON.stringify(search));
+      assert.deepEqual(search.matches, []);
+      return search;
+    });
+
+    if (calls.length > 0) {
+      await this.runTest("Search transcripts of given calls, including an unknown ID", async () => {
+        const search = await this.callTool("gong_search_transcripts", {
+          query: "pricing",
+          call_ids: [calls[0].id, "0000000000000000000"],
+        });
+        assert.ok(search.missing_call_ids?.includes("0000000000000000000"), JSON.stringify(search).slice(0, 300));
+        if (this.mock) assert.deepEqual(search.missing_call_ids, ["0000000000000000000"]);
+        return search;
+      });
+    }
+
+    // Test 4g: What was said at each tracker hit
+    await this.runTest("Get tracker excerpts for 'Competitors'", async () => {
+      const first = await this.callTool("gong_get_tracker_excerpts", {
+        tracker: "competitors",
+        from_date: dateRange.from,
+        to_date: dateRange.to,
+        page_size: 2,
+      });
+      if (this.mock) {
+        assert.ok(first.search_info.total_occurrences > 2, JSON.stringify(first.search_info));
+        assert.ok(first.excerpts.every((e: any) => /New Relic|Datadog|Dynatrace/.test(e.sentence)), JSON.stringify(first.excerpts));
+        assert.ok(first.excerpts.every((e: any) => e.link?.includes(e.call_id)));
+      }
+      assert.deepEqual(first.search_info.matched_trackers, first.search_info.total_occurrences > 0 ? ["Competitors"] : []);
+
+      if (first.next_cursor) {
+        const second = await this.callTool("gong_get_tracker_excerpts", {
+          tracker: "competitors",
+          from_date: dateRange.from,
+          to_date: dateRange.to,
+          page_size: 2,
+          cursor: first.next_cursor,
+        });
+        assert.notDeepEqual(second.excerpts[0], first.excerpts[0]);
+        assert.deepEqual(second.search_info, first.search_info);
+      }
+      first.excerpts.forEach((e: any) => console.log(`   📝 [${e.timestamp}] ${e.speaker}: "${e.sentence}"`));
+      return first;
+    });
+
+    await this.runTest("Tracker excerpts across pages scan the same calls", async () => {
+      const first = await this.callTool("gong_get_tracker_excerpts", { tracker: "Pricing", page_size: 1 });
+      assert.ok(first.next_cursor, JSON.stringify(first.search_info));
+
+      // A call recorded after the first page must not shift the default range of the next one
+      const nextPage = () => this.callTool("gong_get_tracker_excerpts", { tracker: "Pricing", page_size: 1, cursor: first.next_cursor });
+      const second = this.mock
+        ? await this.withMockFixtures((fixtures) => {
+            const pricingCall = fixtures.calls.find((c) => c.content.trackers.some((t) => t.name === "Pricing" && t.count > 0))!;
+            fixtures.calls.push({ ...structuredClone(pricingCall), id: "9999999999999999999", started: new Date().toISOString() });
+          }, nextPage)
+        : await nextPage();
+      assert.deepEqual(second.search_info, first.search_info);
+      assert.notDeepEqual(second.excerpts, first.excerpts);
+
+      const invalid = await this.callTool("gong_get_tracker_excerpts", { tracker: "Pricing", cursor: "not-a-cursor" });
+      assert.match(invalid, /^Error getting tracker excerpts: Invalid cursor/);
+      return second;
+    });
+
+    await this.runTest("Get tracker excerpts for an unknown tracker or an empty range", async () => {
+      const misspelt = await this.callTool("gong_get_tracker_excerpts", {
+        tracker: "Competitorz",
+        from_date: dateRange.from,
+        to_date: dateRange.to,
+      });
+      assert.deepEqual([misspelt.search_info.matched_trackers, misspelt.excerpts], [[], []]);
+      if (this.mock) assert.ok(misspelt.search_info.available_trackers.includes("Competitors"));
+
+      const empty = await this.callTool("gong_get_tracker_excerpts", {
+        tracker: "Competitors",
+        from_date: "2001-01-01T00:00:00Z",
+        to_date: "2001-01-31T00:00:00Z",
+      });
+      assert.equal(empty.search_info?.calls_in_scope, 0, JSON.stringify(empty));
+      assert.deepEqual(empty.excerpts, []);
+      return misspelt;
+    });
+
+    // Test 4h: Account timelines (the mock knows which calls and emails belong to an account)
+    if (this.mock) {
+      const fixtures = this.mock.fixtures;
+      const inRange = (at: string) => at >= dateRange.from && at <= dateRange.to;
+      const account = fixtures.accounts.find(
+        (a) =>
+          fixtures.calls.some((c) => c.accountId === a.id && inRange(c.started)) &&
+          fixtures.emails.some((e) => e.accountId === a.id && inRange(e.sentTime))
+      )!;
+      const accountCallIds = fixtures.calls.filter((c) => c.accountId === account.id && inRange(c.started)).map((c) => c.id);
+
+      await this.runTest("Account timeline by CRM account and by domain", async () => {
+        const byAccount = await this.callTool("gong_account_timeline", {
+          account_id: account.id,
+          from_date: dateRange.from,
+          to_date: dateRange.to,
+        });
+        const timelineCallIds = (timeline: any[]) => timeline.filter((t) => t.type === "call").map((t) => t.call_id).sort();
+        assert.deepEqual(timelineCallIds(byAccount.timeline), [...accountCallIds].sort());
+        assert.ok(byAccount.account.domains.includes(account.domain), JSON.stringify(byAccount.account));
+
+        const emails = byAccount.timeline.filter((t: any) => t.type === "email");
+        assert.ok(emails.every((e: any) => [e.from, ...e.to, ...(e.cc ?? [])].some((a: string) => a.endsWith(`@${account.domain}`))));
+        assert.ok(emails.length > 0 && emails.length === byAccount.summary.emails);
+
+        const dates = byAccount.timeline.map((t: any) => t.date ?? t.from);
+        assert.deepEqual(dates, [...dates].sort((a, b) => Date.parse(a) - Date.parse(b)));
+        assert.ok(byAccount.timeline.filter((t: any) => t.type === "gap").every((g: any) => g.days_without_engagement >= 14));
+
+        const byDomain = await this.callTool("gong_account_timeline", {
+          domain: `@${account.domain.toUpperCase()}`,
+          from_date: dateRange.from,
+          to_date: dateRange.to,
+        });
+        assert.deepEqual(timelineCallIds(byDomain.timeline), timelineCallIds(byAccount.timeline));
+        assert.equal(byDomain.summary.emails, byAccount.summary.emails);
+        console.log(`   ${account.name}: ${byAccount.summary.calls} calls, ${byAccount.summary.emails} emails, ${byAccount.summary.engagement_gaps} gaps`);
+        return byAccount;
+      });
+
+      await this.runTest("Account timeline matches free-mail contacts by address", async () =>
+        this.withMockFixtures(
+          (fixtures) => {
+            const call = fixtures.calls.find((c) => c.id === accountCallIds[0])!;
+            call.parties.find((p) => p.affiliation === "External")!.emailAddress = "buyer@gmail.com";
+            const ours = fixtures.emails.find((e) => e.accountId === account.id)!;
+            Object.assign(ours, { id: "free-mail-ours", sentTime: call.started, toEmailAddresses: ["Buyer@Gmail.com"], ccEmailAddresses: [] });
+            const theirs = fixtures.emails.find((e) => e.accountId !== account.id)!;
+            Object.assign(theirs, { id: "free-mail-theirs", sentTime: call.started, fromEmailAddress: "stranger@gmail.com" });
+          },
+          async () => {
+            const timeline = await this.callTool("gong_account_timeline", {
+              account_id: account.id,
+              from_date: dateRange.from,
+              to_date: dateRange.to,
+            });
+            assert.deepEqual(timeline.account.contact_addresses, ["buyer@gmail.com"]);
+            assert.ok(!timeline.account.domains.includes("gmail.com"));
+            const emailIds = timeline.timeline.filter((t: any) => t.type === "email").map((t: any) => t.email_id);
+            assert.ok(emailIds.includes("free-mail-ours"), String(emailIds));
+            assert.ok(!emailIds.includes("free-mail-theirs"), String(emailIds));
+            return timeline;
+          }
+        )
+      );
+    }
+
+    await this.runTest("Account timeline for a domain with no activity", async () => {
+      const timeline = await this.callTool("gong_account_timeline", {
+        domain: "no-activity.example",
+        from_date: "2001-01-01T00:00:00Z",
+        to_date: "2001-01-31T00:00:00Z",
+      });
+      assert.deepEqual([timeline.summary?.calls, timeline.summary?.emails, timeline.timeline], [0, 0, []], JSON.stringify(timeline));
+
+      const missing = await this.callTool("gong_account_timeline", {});
+      assert.match(missing, /^Error building account timeline: Provide account_id, domain, or both/);
+      return timeline;
+    });
+
     // Test 5: List users
     await this.runTest("List users", async () => {
       const users = await this.callTool("gong_list_users", {});
@@ -223,6 +736,70 @@ class GongMCPTester {
       return users;
     });
 
+    // Test 5b: Fuzzy user lookup and org trees (checked against the mock's fixtures)
+    if (this.mock) {
+      const users = this.mock.fixtures.users;
+
+      await this.runTest("Find users by misspelt name and email", async () => {
+        const rep = users.find((u) => u.title === "Account Executive" && u.active)!;
+        const typo = `${rep.firstName} ${rep.lastName.slice(0, 2)}${rep.lastName.slice(3)}`;
+        const byTypo = await this.callTool("gong_find_users", { query: typo });
+        assert.equal(byTypo.matches[0]?.id, rep.id, `${typo}: ${JSON.stringify(byTypo.matches)}`);
+        assert.equal(byTypo.users_searched, users.length);
+
+        const byEmail = await this.callTool("gong_find_users", { query: rep.emailAddress.toUpperCase() });
+        assert.deepEqual([byEmail.matches[0].id, byEmail.matches[0].score], [rep.id, 1]);
+
+        const inactive = users.find((u) => !u.active)!;
+        const inactiveQuery = { query: inactive.emailAddress };
+        assert.equal((await this.callTool("gong_find_users", inactiveQuery)).matches[0].active, false);
+        assert.deepEqual((await this.callTool("gong_find_users", { ...inactiveQuery, include_inactive: false })).matches, []);
+
+        assert.deepEqual((await this.callTool("gong_find_users", { query: "zzzz qqqq" })).matches, []);
+        console.log(`   "${typo}" → ${byTypo.matches[0].name} (score ${byTypo.matches[0].score})`);
+        return byTypo;
+      });
+
+      await this.runTest("Get a manager's team", async () => {
+        const vp = users.find((u) => !u.managerId)!;
+        const team = await this.callTool("gong_get_team", { manager: `${vp.firstName} ${vp.lastName}` });
+        assert.equal(team.manager?.id, vp.id, JSON.stringify(team).slice(0, 300));
+        assert.deepEqual(team.summary, {
+          direct_reports: users.filter((u) => u.managerId === vp.id).length,
+          total_reports: users.length - 1,
+          active_reports: users.filter((u) => u.id !== vp.id && u.active).length,
+          inactive_reports: users.filter((u) => !u.active).length,
+        });
+
+        const direct = await this.callTool("gong_get_team", { manager: vp.id, max_depth: 1 });
+        assert.equal(direct.summary.total_reports, direct.summary.direct_reports);
+        assert.ok(direct.team.reports.every((r: any) => r.reports === undefined && r.direct_reports === 0));
+
+        const unknown = await this.callTool("gong_get_team", { manager: "zzzz qqqq" });
+        assert.match(unknown, /^Error getting team: No user matches "zzzz qqqq"/);
+        return team;
+      });
+
+      await this.runTest("Get a team by a manager name two users share", async () => {
+        const vp = users.find((u) => !u.managerId)!;
+        const namesake = { ...vp, id: "9999999999999999999", emailAddress: `namesake.${vp.emailAddress}`, managerId: vp.id };
+        return this.withMockFixtures(
+          (fixtures) => {
+            fixtures.users = [...fixtures.users, namesake];
+          },
+          async () => {
+            const result = await this.callTool("gong_get_team", { manager: `${vp.firstName} ${vp.lastName}` });
+            assert.match(result, /^Error getting team: ".*" matches 2 users equally well: /);
+            assert.ok(result.includes(`(ID ${vp.id})`) && result.includes(`(ID ${namesake.id})`), result);
+
+            const byEmail = await this.callTool("gong_get_team", { manager: vp.emailAddress });
+            assert.equal(byEmail.manager.id, vp.id);
+            return result;
+          }
+        );
+      });
+    }
+
     // Test 6: Get user stats
     await this.runTest("Get user statistics", async () => {
       const stats = await this.callTool("gong_get_user_stats", {
@@ -233,6 +810,146 @@ class GongMCPTester {
       return stats;
     });
 
+    // Test 6b: Activity trends
+    await this.runTest("Get weekly activity trends", async () => {
+      const fromDate = new Date(Date.now() - 27 * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+      const trends = await this.callTool("gong_get_activity_trends", { from_date: fromDate, to_date: dateRange.toDate });
+      assert.deepEqual(trends.columns?.slice(0, 3), ["period_start", "user_id", "user_name"], JSON.stringify(trends).slice(0, 300));
+      assert.ok(trends.rows.every((row: any[]) => new Date(`${row[0]}T00:00:00Z`).getUTCDay() === 1), "weeks start on Monday");
+      assert.deepEqual(trends.totals.map((t: any) => t.period_start), bucketRange(fromDate, dateRange.toDate, "weekly"));
+
+      const hostColumn = trends.columns.indexOf("callsAsHost");
+      const hostedTotal = trends.rows.reduce((sum: number, row: any[]) => sum + row[hostColumn], 0);
+      assert.equal(trends.totals.reduce((sum: number, t: any) => sum + t.callsAsHost, 0), hostedTotal);
+      if (this.mock) {
+        const hosted = this.mock.fixtures.calls.filter((c) => c.started.slice(0, 10) >= fromDate && c.started.slice(0, 10) <= dateRange.toDate);
+        assert.equal(hostedTotal, hosted.length);
+      }
+      console.log(`   ${trends.rows.length} rows, ${hostedTotal} calls hosted`);
+      return trends;
+    });
+
+    await this.runTest("Get monthly activity trends as CSV, and an empty period", async () => {
+      const csv = await this.callTool("gong_get_activity_trends", {
+        from_date: dateRange.fromDate,
+        to_date: dateRange.toDate,
+        granularity: "monthly",
+        activities: ["callsAsHost"],
+        output: "csv",
+      });
+      const [header, ...lines] = csv.split("\n");
+      assert.equal(header, "period_start,user_id,user_name,callsAsHost");
+      assert.ok(lines.length > 0 && lines.every((line: string) => /^\d{4}-\d{2}-01,/.test(line)), csv.slice(0, 200));
+
+      const empty = await this.callTool("gong_get_activity_trends", { from_date: "2001-01-01", to_date: "2001-01-31" });
+      assert.deepEqual(empty.totals.map((t: any) => t.period_start), bucketRange("2001-01-01", "2001-01-31", "weekly"));
+      assert.ok(empty.totals.every((t: any) => t.callsAsHost === 0 && t.callsAttended === 0), JSON.stringify(empty.totals));
+      return csv;
+    });
+
+    // Test 6c: Interaction stats
+    await this.runTest("Get interaction statistics", async () => {
+      const stats = await this.callTool("gong_get_interaction_stats", {
+        from_date: dateRange.fromDate,
+        to_date: dateRange.toDate,
+      });
+      const entries = stats.interaction_stats ?? [];
+      assert.ok(entries.length > 0, JSON.stringify(stats));
+      assert.ok(entries.every((e: any) => e.talk_ratio_percent === undefined || (e.talk_ratio_percent >= 0 && e.talk_ratio_percent <= 100)));
+      const names = entries.map((e: any) => e.name ?? e.user_id);
+      assert.deepEqual(names, [...names].sort((a, b) => a.localeCompare(b)));
+
+      const one = await this.callTool("gong_get_interaction_stats", {
+        from_date: dateRange.fromDate,
+        to_date: dateRange.toDate,
+        user_ids: [entries[0].user_id],
+      });
+      assert.deepEqual(one.interaction_stats, [entries[0]]);
+      console.log(`   ${entries.length} users, e.g. ${entries[0].name}: ${entries[0].talk_ratio_percent}% talk ratio`);
+      return stats;
+    });
+
+    await this.runTest("Get interaction statistics for a period with no calls", async () => {
+      const result = await this.callTool("gong_get_interaction_stats", { from_date: "2001-01-01", to_date: "2001-01-31" });
+      assert.deepEqual(result, { date_range: { from: "2001-01-01", to: "2001-01-31" }, interaction_stats: [] });
+      return result;
+    });
+
+    // Test 6d: Team rollups (checked against the mock's fixtures)
+    if (this.mock) {
+      const fixtures = this.mock.fixtures;
+      const vp = fixtures.users.find((u) => !u.managerId)!;
+
+      await this.runTest("Team stats with a previous-period comparison", async () => {
+        const stats = await this.callTool("gong_get_team_stats", {
+          manager: vp.id,
+          from_date: dateRange.fromDate,
+          to_date: dateRange.toDate,
+          compare_previous_period: true,
+        });
+        assert.equal(stats.team?.reps_with_stats, fixtures.users.length - 1, JSON.stringify(stats).slice(0, 300));
+        assert.deepEqual(stats.comparison_range, {
+          from: previousPeriod(dateRange.fromDate, dateRange.toDate).fromDate,
+          to: previousPeriod(dateRange.fromDate, dateRange.toDate).toDate,
+        });
+
+        const hosted = fixtures.calls.filter(
+          (c) =>
+            c.primaryUserId !== vp.id &&
+            c.started >= `${dateRange.fromDate}T00:00:00Z` &&
+            c.started <= `${dateRange.toDate}T23:59:59Z`
+        );
+        assert.equal(stats.team.metrics.callsAsHost.total, hosted.length);
+        assert.equal(typeof stats.team.metrics.callsAsHost.previous, "number");
+        assert.equal(stats.sub_teams.length, fixtures.users.filter((u) => u.managerId === vp.id).length);
+
+        const ranks = stats.reps.map((rep: any) => rep.ranks.callsAsHost);
+        assert.deepEqual(ranks, [...ranks].sort((a, b) => a - b));
+        assert.ok(stats.reps.every((rep: any) => rep.changes.callsAsHost.change === rep.metrics.callsAsHost - rep.changes.callsAsHost.previous));
+
+        const withManager = await this.callTool("gong_get_team_stats", {
+          manager: vp.id,
+          from_date: dateRange.fromDate,
+          to_date: dateRange.toDate,
+          include_manager: true,
+        });
+        assert.equal(withManager.team.reps_with_stats, fixtures.users.length);
+        assert.equal(withManager.comparison_range, undefined);
+        console.log(`   Team hosted ${stats.team.metrics.callsAsHost.total} calls (${stats.team.metrics.callsAsHost.change >= 0 ? "+" : ""}${stats.team.metrics.callsAsHost.change} vs previous period)`);
+        return stats;
+      });
+
+      await this.runTest("Team stats for a period with no activity", async () => {
+        const stats = await this.callTool("gong_get_team_stats", {
+          manager: `${vp.firstName} ${vp.lastName}`,
+          from_date: "2001-01-01",
+          to_date: "2001-01-31",
+          compare_previous_period: true,
+        });
+        assert.deepEqual(stats.team?.metrics.callsAsHost, { total: 0, average: 0, previous: 0, change: 0 }, JSON.stringify(stats.team));
+
+        const unknown = await this.callTool("gong_get_team_stats", { manager: "zzzz qqqq", from_date: "2001-01-01", to_date: "2001-01-31" });
+        assert.match(unknown, /^Error getting team stats: No user matches/);
+        return stats;
+      });
+
+      await this.runTest("Team stats for a manager name two users share", async () => {
+        const namesake = { ...vp, id: "9999999999999999999", emailAddress: `namesake.${vp.emailAddress}`, managerId: vp.id };
+        return this.withMockFixtures(
+          (fixtures) => {
+            fixtures.users = [...fixtures.users, namesake];
+          },
+          async () => {
+            const period = { from_date: "2001-01-01", to_date: "2001-01-31" };
+            const result = await this.callTool("gong_get_team_stats", { manager: `${vp.firstName} ${vp.lastName}`, ...period });
+            assert.match(result, /^Error getting team stats: ".*" matches 2 users equally well: /);
+            assert.ok(result.includes(`(ID ${vp.id})`) && result.includes(`(ID ${namesake.id})`), result);
+            return result;
+          }
+        );
+      });
+    }
+
     // Test 7: List deals
     await this.runTest("List deals", async () => {
       const deals = await this.callTool("gong_list_deals", {
@@ -259,6 +976,132 @@ class GongMCPTester {
       return emails;
     });
 
+    // Test 8b: Email filters, bodies and threads (checked against the mock's fixtures)
+    if (this.mock) {
+      const fixtures = this.mock.fixtures;
+      const account = fixtures.accounts.find((a) => fixtures.emails.filter((e) => e.accountId === a.id).length > 1)!;
+      const thread = fixtures.emails.filter((e) => e.accountId === account.id);
+      const range = { from_date: "2020-01-01T00:00:00Z", to_date: new Date().toISOString() };
+
+      await this.runTest("List emails filtered by domain and direction", async () => {
+        const listed: any[] = [];
+        let cursor: string | undefined;
+        do {
+          const page = await this.callTool("gong_list_emails", {
+            ...range,
+            domain: `@${account.domain}`,
+            direction: "Inbound",
+            include_body: true,
+            cursor,
+          });
+          listed.push(...page.emails);
+          cursor = page.next_cursor;
+        } while (cursor);
+
+        const expected = thread.filter((e) => e.direction === "Inbound");
+        assert.deepEqual(listed.map((e) => e.id).sort(), expected.map((e) => e.id).sort());
+        assert.ok(listed.every((e) => !e.body.includes("wrote:") && !e.body.includes("> ")), JSON.stringify(listed));
+        return listed;
+      });
+
+      await this.runTest("Get an email with and without quoted replies", async () => {
+        const reply = thread[1];
+        const email = await this.callTool("gong_get_email", { email_id: reply.id });
+        assert.equal(email.id, reply.id, JSON.stringify(email));
+        assert.equal(email.body, reply.body.slice(0, reply.body.indexOf("\n\nOn ")));
+
+        const quoted = await this.callTool("gong_get_email", { email_id: reply.id, include_quoted: true });
+        assert.ok(quoted.body.startsWith(`${email.body}\n\nOn `) && quoted.body.includes(" wrote:\n> "), quoted.body);
+
+        const missing = await this.callTool("gong_get_email", { email_id: "not-an-email" });
+        assert.match(missing, /^Error getting email: Email not-an-email not found/);
+        return email;
+      });
+
+      await this.runTest("Reconstruct an email thread by ID and by subject", async () => {
+        const byId = await this.callTool("gong_get_email_thread", { email_id: thread[thread.length - 1].id, ...range });
+        assert.equal(byId.threads?.length, 1, JSON.stringify(byId));
+        assert.equal(byId.threads[0].subject, thread[0].subject);
+        assert.deepEqual(byId.threads[0].messages.map((m: any) => m.id), thread.map((e) => e.id));
+
+        const bySubject = await this.callTool("gong_get_email_thread", {
+          subject: `Re: ${thread[0].subject}`,
+          participant: account.domain,
+          ...range,
+        });
+        assert.deepEqual(bySubject, byId);
+
+        const none = await this.callTool("gong_get_email_thread", { subject: "No such subject", ...range });
+        assert.match(none, /^Error getting email thread: No matching thread/);
+        assert.match(await this.callTool("gong_get_email_thread", {}), /^Error getting email thread: Provide email_id or subject/);
+        return byId;
+      });
+    }
+
+    // Test 8c: Scorecard templates and answered scorecards (checked against the mock's fixtures)
+    if (this.mock) {
+      const fixtures = this.mock.fixtures;
+
+      await this.runTest("List scorecards, with and without disabled ones", async () => {
+        const listed = await this.callTool("gong_list_scorecards", {});
+        assert.deepEqual(listed.scorecards?.map((s: any) => s.id), fixtures.scorecards.map((s) => s.scorecardId), JSON.stringify(listed));
+        assert.ok(listed.scorecards.every((s: any) => s.questions.filter((q: any) => q.is_overall).length === 1));
+        assert.deepEqual(listed.scorecards[0].questions[0].range, [1, 5]);
+
+        return this.withMockFixtures(
+          (fixtures) => {
+            fixtures.scorecards[1].enabled = false;
+          },
+          async () => {
+            const enabled = await this.callTool("gong_list_scorecards", {});
+            assert.deepEqual(enabled.scorecards.map((s: any) => s.id), [fixtures.scorecards[0].scorecardId]);
+            const all = await this.callTool("gong_list_scorecards", { include_disabled: true });
+            assert.equal(all.scorecards.length, 2);
+            return listed;
+          }
+        );
+      });
+
+      await this.runTest("Answered scorecards with per-question and per-rep averages", async () => {
+        const range = { from_date: "2020-01-01", to_date: "2100-01-01" };
+        const rep = fixtures.answeredScorecards[0].reviewedUserId;
+        const expected = fixtures.answeredScorecards.filter((a) => a.reviewedUserId === rep);
+
+        const result = await this.callTool("gong_get_answered_scorecards", { ...range, reviewee_ids: [rep] });
+        assert.equal(result.summary?.answered_scorecards, expected.length, JSON.stringify(result).slice(0, 300));
+        assert.deepEqual(result.summary.by_rep.map((r: any) => r.user_id), [rep]);
+
+        const overall = expected.flatMap((a) => a.answers.filter((q) => q.isOverall && !q.notApplicable).map((q) => q.score!));
+        const mean = overall.reduce((sum, score) => sum + score, 0) / overall.length;
+        assert.equal(result.summary.by_rep[0].overall_average, Math.round(mean * 100) / 100);
+
+        // Not-applicable answers don't count towards a question's answers
+        const scored = expected.flatMap((a) => a.answers).filter((q) => !q.notApplicable).length;
+        assert.equal(result.summary.by_question.reduce((sum: number, q: any) => sum + q.answers, 0), scored);
+
+        const byCall = await this.callTool("gong_get_answered_scorecards", { ...range, call_ids: [expected[0].callId] });
+        assert.deepEqual(byCall.scorecards.map((s: any) => s.id), [expected[0].answeredScorecardId]);
+
+        // Default range: the last 90 days up to and including today
+        const day = (offsetDays: number) => new Date(Date.now() + offsetDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        const recent = fixtures.answeredScorecards.filter((a) => a.reviewTime.slice(0, 10) >= day(-90) && a.reviewTime.slice(0, 10) <= day(0));
+        const byDefault = await this.callTool("gong_get_answered_scorecards", {});
+        assert.equal(byDefault.summary?.answered_scorecards, recent.length, JSON.stringify(byDefault).slice(0, 300));
+        console.log(`   ${expected.length} scorecards for ${result.summary.by_rep[0].name}, overall ${result.summary.by_rep[0].overall_average}`);
+        return result;
+      });
+    }
+
+    await this.runTest("Answered scorecards for a period with no reviews", async () => {
+      const result = await this.callTool("gong_get_answered_scorecards", { from_date: "2001-01-01", to_date: "2001-01-31" });
+      assert.deepEqual(result, {
+        summary: { answered_scorecards: 0, by_question: [], by_rep: [] },
+        scorecards: [],
+        truncated: false,
+      });
+      return result;
+    });
+
     // Test 9: List library folders
     await this.runTest("List library folders", async () => {
       const folders = await this.callTool("gong_list_library_folders", {});
@@ -283,9 +1126,1034 @@ class GongMCPTester {
       });
     }
 
+    // Test 11: Deal briefs
+    if (this.mock) {
+      const fixtures = this.mock.fixtures;
+      const deal = fixtures.deals.find((d) => fixtures.calls.filter((c) => c.dealId === d.id).length > 1)!;
+      const dealCalls = fixtures.calls.filter((c) => c.dealId === deal.id);
+
+      await this.runTest("Deal brief", async () => {
+        const brief = await this.callTool("gong_deal_brief", { deal_id: deal.id });
+        assert.equal(brief.deal?.id, deal.id, JSON.stringify(brief));
+        assert.equal(brief.engagement.call_count, dealCalls.length);
+        assert.deepEqual(brief.calls.map((c: any) => c.date), [...brief.calls.map((c: any) => c.date)].sort());
+        assert.equal(brief.latest_call.call_id, brief.calls[brief.calls.length - 1].call_id);
+        assert.ok(brief.engagement.days_since_last_contact >= 0);
+
+        const contactEmails = new Set(fixtures.accounts.find((a) => a.id === deal.account.id)!.contacts.map((c) => c.emailAddress));
+        assert.ok(brief.buyer_contacts.length > 0 && brief.buyer_contacts.every((c: any) => contactEmails.has(c.email)));
+        console.log(`   "${deal.title}": ${brief.engagement.call_count} calls, ${brief.engagement.buyer_contacts_engaged} buyer contacts`);
+        return brief;
+      });
+
+      await this.runTest("Deal brief for a deal with no calls", async () =>
+        this.withMockFixtures(
+          (fixtures) => {
+            for (const call of fixtures.calls.filter((c) => c.dealId === deal.id)) call.dealId = undefined;
+          },
+          async () => {
+            const brief = await this.callTool("gong_deal_brief", { deal_id: deal.id });
+            assert.deepEqual(brief.engagement, { call_count: 0, buyer_contacts_engaged: 0 });
+            assert.deepEqual([brief.buyer_contacts, brief.calls, brief.latest_call], [[], [], undefined]);
+            return brief;
+          }
+        )
+      );
+    }
+
+    await this.runTest("Deal brief for an unknown deal", async () => {
+      const result = await this.callTool("gong_deal_brief", { deal_id: "006-not-a-deal" });
+      assert.match(result, /^Error building deal brief: Deal 006-not-a-deal not found/);
+      return result;
+    });
+
+    // Test 12: Pipeline risk across open deals
+    await this.runTest("Pipeline risk report", async () => {
+      const report = await this.callTool("gong_pipeline_risk", {});
+      const reported = report.stages.flatMap((stage: any) => stage.owners.flatMap((owner: any) => owner.deals));
+      assert.equal(reported.length, report.summary.deals_at_risk, JSON.stringify(report.summary));
+      assert.ok(reported.every((deal: any) => deal.risks.length > 0));
+
+      const withHealthy = await this.callTool("gong_pipeline_risk", { include_healthy: true });
+      const all = withHealthy.stages.flatMap((stage: any) => stage.owners.flatMap((owner: any) => owner.deals));
+      assert.equal(all.length, report.summary.open_deals_assessed);
+
+      if (this.mock) {
+        const openDeals = this.mock.fixtures.deals.filter((d) => d.status === "Open");
+        assert.deepEqual(all.map((d: any) => d.id).sort(), openDeals.map((d) => d.id).sort());
+        for (const deal of all) {
+          assert.equal(deal.call_count, this.mock.fixtures.calls.filter((c) => c.dealId === deal.id).length, deal.id);
+        }
+      }
+      console.log(`   ${report.summary.deals_at_risk} of ${report.summary.open_deals_assessed} open deals at risk`);
+      return report;
+    });
+
+    if (this.mock) {
+      const openDeal = this.mock.fixtures.deals.find((d) => d.status === "Open")!;
+
+      await this.runTest("Pipeline risk flags an open deal with no calls", async () =>
+        this.withMockFixtures(
+          (fixtures) => {
+            for (const call of fixtures.calls.filter((c) => c.dealId === openDeal.id)) call.dealId = undefined;
+          },
+          async () => {
+            const report = await this.callTool("gong_pipeline_risk", {});
+            const deal = report.stages
+              .flatMap((stage: any) => stage.owners.flatMap((owner: any) => owner.deals))
+              .find((d: any) => d.id === openDeal.id);
+            assert.equal(deal?.call_count, 0, JSON.stringify(deal));
+            assert.equal(deal.risks[0].flag, "no_calls");
+            return report;
+          }
+        )
+      );
+    }
+
+    await this.runClientTests();
+    await this.runLogicTests();
+
     this.printSummary();
   }
 
+  /**
+   * Run fn against a GongClient talking to a dedicated mock server (e.g. one injecting faults)
+   */
+  async withMockClient<T>(
+    mockOptions: MockGongServerOptions,
+    clientOptions: GongClientOptions,
+    fn: (client: GongClient, mock: MockGongServer) => Promise<T>
+  ): Promise<T> {
+    const mock = await startMockGongServer(mockOptions);
+    try {
+      const client = new GongClient({ accessKey: "mock", accessKeySecret: "mock", baseUrl: mock.baseUrl, ...clientOptions });
+      return await fn(client, mock);
+    } finally {
+      await mock.close();
+    }
+  }
+
+  /**
+   * GongClient behaviour against local mock servers (no credentials needed, so these run in live mode too)
+   */
+  async runClientTests() {
+    console.log("\n🔧 CLIENT TESTS\n");
+
+    await this.runTest("Client: retries 5xx and 429 responses", async () => {
+      const retries: GongRetryInfo[] = [];
+      const retry = { baseDelayMs: 1, onRetry: (info: GongRetryInfo) => retries.push(info) };
+
+      // Every 2nd request fails, so the second listUsers needs one retry
+      await this.withMockClient({ faults: [{ status: 500, everyNth: 2 }] }, { retry }, async (client) => {
+        await client.listUsers();
+        const users = await client.listUsers();
+        assert.ok(users.records.length > 0);
+        assert.deepEqual(client.getRequestStats(), { requests: 3, retries: 1 });
+      });
+      assert.deepEqual(retries.map((r) => [r.endpoint, r.attempt, r.status]), [["/users", 1, 500]]);
+
+      // A Retry-After header replaces the (here deliberately long) backoff delay
+      retries.length = 0;
+      await this.withMockClient(
+        { faults: [{ status: 429, everyNth: 2 }], retryAfterSeconds: 0 },
+        { retry: { ...retry, baseDelayMs: 60_000 } },
+        async (client) => {
+          await client.listUsers();
+          await client.listUsers();
+          assert.deepEqual(client.getRequestStats(), { requests: 3, retries: 1 });
+        }
+      );
+      assert.deepEqual(retries.map((r) => [r.status, r.delayMs]), [[429, 0]]);
+    });
+
+    await this.runTest("Client: gives up after maxRetries", async () =>
+      this.withMockClient({ faults: [{ status: 500, everyNth: 1 }] }, { retry: { maxRetries: 2, baseDelayMs: 1 } }, async (client) => {
+        await assert.rejects(client.listUsers(), (error: unknown) => {
+          assert.ok(error instanceof GongServerError);
+          assert.equal(error.status, 500);
+          assert.deepEqual(error.errors, ["Internal server error (injected)"]);
+          return true;
+        });
+        assert.deepEqual(client.getRequestStats(), { requests: 3, retries: 2 });
+      })
+    );
+
+    await this.runTest("Client: fails fast when Retry-After exceeds maxRetryAfterMs", async () =>
+      this.withMockClient(
+        { faults: [{ status: 429, everyNth: 1 }], retryAfterSeconds: 120 },
+        { retry: { maxRetryAfterMs: 1000 } },
+        async (client) => {
+          await assert.rejects(client.listUsers(), (error: unknown) => {
+            assert.ok(error instanceof GongRateLimitError);
+            assert.equal(error.retryAfterMs, 120_000);
+            return true;
+          });
+          assert.deepEqual(client.getRequestStats(), { requests: 1, retries: 0 });
+        }
+      )
+    );
+
+    await this.runTest("Client: does not retry 4xx responses", async () =>
+      this.withMockClient({}, { retry: { baseDelayMs: 1 } }, async (client) => {
+        await assert.rejects(
+          client.listCalls({ fromDateTime: "2000-01-01T00:00:00Z", toDateTime: "2000-01-02T00:00:00Z" }),
+          GongNotFoundError
+        );
+        assert.deepEqual(client.getRequestStats(), { requests: 1, retries: 0 });
+      })
+    );
+
+    await this.runTest("Client: pagination limits and abort", async () =>
+      this.withMockClient({ pageSize: 25 }, {}, async (client, mock) => {
+        const collect = async (records: AsyncIterable<{ id: string }>) => {
+          const ids: string[] = [];
+          for await (const record of records) ids.push(record.id);
+          return ids;
+        };
+        const requestsFor = async <T>(fn: () => Promise<T>) => {
+          const before = client.getRequestStats().requests;
+          const result = await fn();
+          return { result, requests: client.getRequestStats().requests - before };
+        };
+        const allIds = mock.fixtures.calls.map((c) => c.id);
+        assert.ok(allIds.length > 50, `need at least 3 pages, got ${allIds.length} calls`);
+
+        const all = await requestsFor(() => collect(client.iterateCalls()));
+        assert.deepEqual(all.result, allIds);
+        assert.equal(all.requests, Math.ceil(allIds.length / 25));
+
+        const twoPages = await requestsFor(() => collect(client.iterateCalls({}, { maxPages: 2 })));
+        assert.deepEqual(twoPages, { result: allIds.slice(0, 50), requests: 2 });
+
+        const thirty = await requestsFor(() => collect(client.iterateCalls({}, { maxRecords: 30 })));
+        assert.deepEqual(thirty, { result: allIds.slice(0, 30), requests: 2 });
+
+        // Reaching maxRecords on a page boundary must not fetch the next page
+        const onePage = await requestsFor(() => collect(client.iterateCalls({}, { maxRecords: 25 })));
+        assert.deepEqual(onePage, { result: allIds.slice(0, 25), requests: 1 });
+
+        // The signal is checked between pages: the current page finishes, the next is never requested
+        const controller = new AbortController();
+        const seen: string[] = [];
+        const aborted = await requestsFor(() =>
+          assert.rejects(async () => {
+            for await (const call of client.iterateCalls({}, { signal: controller.signal })) {
+              seen.push(call.id);
+              controller.abort();
+            }
+          }, { name: "AbortError" })
+        );
+        assert.deepEqual([seen, aborted.requests], [allIds.slice(0, 25), 1]);
+
+        const preAborted = await requestsFor(() =>
+          assert.rejects(collect(client.iterateCalls({}, { signal: AbortSignal.abort() })), { name: "AbortError" })
+        );
+        assert.equal(preAborted.requests, 0);
+      })
+    );
+
+    await this.runTest("Client: call batches with only unknown IDs are skipped", async () =>
+      this.withMockClient({}, {}, async (client, mock) => {
+        const [a, b, c] = mock.fixtures.calls.map((call) => call.id);
+        const calls = await client.getCallsExtensive([a, b, c, "000"], { batchSize: 3 });
+        assert.deepEqual(calls.map((call) => call.id), [a, b, c]);
+        assert.deepEqual(await client.getCallsExtensive(["000", "001"]), []);
+      })
+    );
+
+    await this.runTest("Client: transcript batches with only unknown IDs are skipped", async () =>
+      this.withMockClient({}, {}, async (client, mock) => {
+        const [a, b, c] = mock.fixtures.calls.filter((call) => call.transcript.length > 0).map((call) => call.id);
+        const transcripts = await client.getTranscripts([a, b, c, "000"], { batchSize: 3 });
+        assert.deepEqual(transcripts.map((t) => t.callId), [a, b, c]);
+        assert.equal(await client.getTranscript("000"), undefined);
+      })
+    );
+
+    await this.runTest("Client: malformed responses in lenient and strict mode", async () => {
+      const emptyBody: typeof fetch = async () => new Response("{}", { status: 200, headers: { "Content-Type": "application/json" } });
+      const period = { fromDate: "2026-01-01", toDate: "2026-01-31" };
+      const everyMethod = (client: GongClient): Record<string, Promise<unknown[]>> => ({
+        listCalls: client.listCalls().then((page) => page.records),
+        getCallsExtensive: client.getCallsExtensive(["c1"]),
+        getTranscripts: client.getTranscripts(["c1"]),
+        searchCalls: client.searchCalls({}).then((page) => page.records),
+        listUsers: client.listUsers().then((page) => page.records),
+        getUsers: client.getUsers(["u1"]),
+        getCallsByCrmObject: client.getCallsByCrmObject({ objectType: "Account", objectIds: ["a1"] }),
+        listDeals: client.listDeals().then((page) => page.records),
+        listEmails: client.listEmails().then((page) => page.records),
+        getUserStats: client.getUserStats(period),
+        getDayByDayStats: client.getDayByDayStats(period).then((page) => page.records),
+        getInteractionStats: client.getInteractionStats(period).then((page) => page.records),
+        listScorecards: client.listScorecards(),
+        getAnsweredScorecards: client.getAnsweredScorecards().then((page) => page.records),
+        listLibraryFolders: client.listLibraryFolders(),
+      });
+      const settle = async (methods: Record<string, Promise<unknown[]>>) =>
+        Object.fromEntries(await Promise.all(Object.entries(methods).map(async ([name, result]) => [name, await result.catch((error) => error)])));
+
+      // Lenient: every method reports the mismatch and degrades to an empty result
+      const reported: GongResponseValidationError[] = [];
+      await this.withMockClient({}, { fetch: emptyBody, onValidationError: (error) => reported.push(error) }, async (client) => {
+        for (const [name, result] of Object.entries(await settle(everyMethod(client)))) {
+          assert.deepEqual(result, [], name);
+        }
+      });
+      assert.ok(reported.length > 0 && reported.every((error) => error instanceof GongResponseValidationError));
+      assert.ok(reported.some((error) => error.endpoint === "/stats/activity/aggregate" && error.issues[0].path === "usersStats"));
+
+      // A body that isn't an object at all is treated like an empty one
+      const nullBody: typeof fetch = async () => new Response("null", { status: 200 });
+      await this.withMockClient({}, { fetch: nullBody, onValidationError: () => {} }, async (client) => {
+        assert.deepEqual((await client.listCalls()).records, []);
+      });
+
+      // Strict: every method throws, except where Gong itself omits the list when nothing matches
+      const optionalLists = new Set(["getCallsExtensive", "getTranscripts", "searchCalls"]);
+      await this.withMockClient({}, { fetch: emptyBody, validation: "strict" }, async (client) => {
+        for (const [name, result] of Object.entries(await settle(everyMethod(client)))) {
+          if (optionalLists.has(name)) assert.deepEqual(result, [], name);
+          else assert.ok(result instanceof GongResponseValidationError, `${name}: ${result}`);
+        }
+      });
+    });
+
+    await this.runTest("Client: OAuth refresh, token rotation and customer base URL", async () => {
+      const mock = await startMockGongServer();
+      try {
+        // Token endpoint: every refresh rotates the refresh token and points at the mock as the customer host
+        const refreshedWith: string[] = [];
+        const tokenFetch: typeof fetch = async (input, init) => {
+          const url = new URL(String(input));
+          assert.equal(url.searchParams.get("grant_type"), "refresh_token");
+          assert.equal((init?.headers as Record<string, string>).Authorization, `Basic ${Buffer.from("app:secret").toString("base64")}`);
+          const refreshToken = url.searchParams.get("refresh_token")!;
+          if (refreshToken === "revoked") return new Response(JSON.stringify({ errors: ["invalid_grant"] }), { status: 401 });
+          refreshedWith.push(refreshToken);
+          const n = refreshedWith.length;
+          return Response.json({
+            access_token: `access-${n}`,
+            refresh_token: `refresh-${n}`,
+            expires_in: 3600,
+            api_base_url_for_customer: mock.url,
+          });
+        };
+        const saved: GongOAuthTokens[] = [];
+        const oauth = (options: Partial<ConstructorParameters<typeof OAuthAuth>[0]>) =>
+          new OAuthAuth({
+            clientId: "app",
+            clientSecret: "secret",
+            tokenUrl: "https://gong.invalid/oauth2/generate-customer-token",
+            fetch: tokenFetch,
+            saveTokens: (tokens) => {
+              saved.push({ ...tokens });
+            },
+            ...options,
+          });
+
+        // Gong API: the first access token has been revoked server-side, so it gets a 401
+        const sent: string[] = [];
+        const apiFetch: typeof fetch = async (input, init) => {
+          const authorization = (init?.headers as Record<string, string>).Authorization;
+          sent.push(`${authorization} ${new URL(String(input)).origin}`);
+          if (authorization === "Bearer access-1") return new Response(JSON.stringify({ errors: ["expired"] }), { status: 401 });
+          return fetch(input, init);
+        };
+
+        const client = new GongClient({ auth: oauth({ tokens: { refreshToken: "refresh-0" } }), fetch: apiFetch });
+        assert.ok((await client.listUsers()).records.length > 0);
+        await client.listUsers();
+
+        assert.deepEqual(refreshedWith, ["refresh-0", "refresh-1"]);
+        assert.deepEqual(
+          saved.map((tokens) => [tokens.accessToken, tokens.refreshToken, tokens.apiBaseUrl]),
+          [["access-1", "refresh-1", mock.url], ["access-2", "refresh-2", mock.url]]
+        );
+        assert.ok(saved.every((tokens) => tokens.expiresAt! > Date.now()));
+        assert.deepEqual(sent, [`Bearer access-1 ${mock.url}`, `Bearer access-2 ${mock.url}`, `Bearer access-2 ${mock.url}`]);
+        // Re-sending after a refresh does not spend the retry budget
+        assert.deepEqual(client.getRequestStats(), { requests: 3, retries: 0 });
+
+        // Persisted tokens are picked up without another refresh
+        sent.length = 0;
+        const restored = new GongClient({ auth: oauth({ loadTokens: async () => saved.at(-1) }), fetch: apiFetch });
+        await restored.listUsers();
+        assert.deepEqual([sent, refreshedWith.length], [[`Bearer access-2 ${mock.url}`], 2]);
+
+        // A rejected refresh token surfaces as an auth error on the token endpoint
+        const revoked = new GongClient({ auth: oauth({ tokens: { refreshToken: "revoked" } }), fetch: apiFetch });
+        await assert.rejects(revoked.listUsers(), (error: unknown) => {
+          assert.ok(error instanceof GongAuthError);
+          assert.equal(error.endpoint, "/oauth2/generate-customer-token");
+          return true;
+        });
+      } finally {
+        await mock.close();
+      }
+    });
+
+    await this.runTest("Client: tool errors report hint, retryability and request ID", async () => {
+      const callTool = async (client: GongClient, name: string, args: Record<string, unknown>) => {
+        const server = createGongMcpServer(client);
+        const mcp = new Client({ name: "gong-client-test", version: "1.0.0" }, { capabilities: {} });
+        const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+        await server.connect(serverTransport);
+        await mcp.connect(clientTransport);
+        try {
+          const result: any = await mcp.callTool({ name, arguments: args });
+          assert.equal(result.isError, true);
+          return result.content[0].text as string;
+        } finally {
+          await mcp.close();
+        }
+      };
+
+      await this.withMockClient({}, {}, async (client) => {
+        const text = await callTool(client, "gong_list_calls", { from_date: "2001-01-01T00:00:00Z", to_date: "2001-01-31T00:00:00Z" });
+        assert.equal(
+          text,
+          [
+            "Error listing calls: GongNotFoundError (HTTP 404): No calls found corresponding to the provided filters",
+            "Hint: No calls found in this date range. Try widening from_date/to_date.",
+            "Retryable: no",
+            "Gong request ID: mock-1",
+          ].join("\n")
+        );
+      });
+
+      await this.withMockClient(
+        { faults: [{ status: 429, everyNth: 1 }], retryAfterSeconds: 120 },
+        { retry: { maxRetryAfterMs: 1000 } },
+        async (client) => {
+          const text = await callTool(client, "gong_list_users", {});
+          assert.equal(
+            text,
+            [
+              "Error listing users: GongRateLimitError (HTTP 429): API request limit exceeded",
+              "Hint: Gong rate limit reached (~1000 requests/hour). Wait 120s before retrying, or narrow the date range.",
+              "Retryable: yes",
+              "Gong request ID: mock-1",
+            ].join("\n")
+          );
+        }
+      );
+
+      await this.withMockClient({ faults: [{ status: 500, everyNth: 1 }] }, { retry: { maxRetries: 0 } }, async (client) => {
+        const text = await callTool(client, "gong_list_users", {});
+        assert.match(text, /^Error listing users: GongServerError \(HTTP 500\): Internal server error \(injected\)\nHint: Gong had a server-side problem\..*\nRetryable: yes\nGong request ID: mock-1$/);
+      });
+    });
+  }
+
+  /**
+   * Pure logic behind the tools, checked against hand-written inputs (no Gong calls)
+   */
+  async runLogicTests() {
+    console.log("\n🧮 LOGIC TESTS\n");
+
+    await this.runTest("Logic: Gong error classes by status", async () => {
+      const error = (status: number, body = "") => createGongApiError({ status, endpoint: "/calls", body });
+      const expected: [number, Function][] = [
+        [400, GongValidationError],
+        [401, GongAuthError],
+        [403, GongPermissionError],
+        [404, GongNotFoundError],
+        [422, GongValidationError],
+        [429, GongRateLimitError],
+        [500, GongServerError],
+        [503, GongServerError],
+      ];
+      for (const [status, errorClass] of expected) {
+        const created = error(status);
+        assert.equal(created.constructor, errorClass, String(status));
+        assert.equal(created.name, errorClass.name);
+        assert.equal(created.status, status);
+        assert.equal(created.retryable, status === 429 || status >= 500, String(status));
+      }
+      assert.equal(error(418).constructor, GongApiError);
+
+      const parsed = error(404, JSON.stringify({ requestId: "req-1", errors: ["No calls found", "Check the filter"] }));
+      assert.deepEqual([parsed.requestId, parsed.errors], ["req-1", ["No calls found", "Check the filter"]]);
+      assert.equal(parsed.message, "Gong API error (404) on /calls: No calls found; Check the filter");
+
+      const html = error(502, "<html>Bad Gateway</html>");
+      assert.deepEqual([html.requestId, html.errors, html.rawBody], [undefined, [], "<html>Bad Gateway</html>"]);
+
+      const limited = createGongApiError({ status: 429, endpoint: "/calls", body: "", retryAfterMs: 5000 });
+      assert.ok(limited instanceof GongRateLimitError);
+      assert.equal(limited.retryAfterMs, 5000);
+    });
+
+    await this.runTest("Logic: client settings from the environment", async () => {
+      assert.deepEqual(
+        gongConfigFromEnv({
+          GONG_API_BASE_URL: "https://us-12345.api.gong.io/v2",
+          GONG_REQUEST_TIMEOUT_MS: "30000",
+          GONG_MAX_RETRIES: "2",
+          GONG_RESPONSE_VALIDATION: "strict",
+          GONG_DEFAULT_HEADERS: '{"X-Proxy-Token":"abc","X-Ignored":1}',
+        }),
+        {
+          baseUrl: "https://us-12345.api.gong.io/v2",
+          timeoutMs: 30000,
+          validation: "strict",
+          defaultHeaders: { "X-Proxy-Token": "abc" },
+          retry: { maxRetries: 2 },
+        }
+      );
+      assert.deepEqual(gongConfigFromEnv({}), {
+        baseUrl: undefined,
+        timeoutMs: undefined,
+        validation: "lenient",
+        defaultHeaders: undefined,
+        retry: { maxRetries: undefined },
+      });
+      for (const headers of ["not json", "[1]", "null", '"x"']) {
+        assert.equal(gongConfigFromEnv({ GONG_DEFAULT_HEADERS: headers }).defaultHeaders, undefined, headers);
+      }
+    });
+
+    await this.runTest("Logic: search query parsing and matching", async () => {
+      assert.deepEqual(parseSearchQuery('"New Relic" OR datadog AND shortlist'), [["New Relic"], ["datadog", "shortlist"]]);
+      assert.deepEqual(parseSearchQuery('AND OR ""'), []);
+      assert.deepEqual(parseSearchQuery('"new relic'), [["new", "relic"]]);
+      assert.deepEqual(parseSearchQuery('pricing "'), [["pricing"]]);
+
+      const matches = searchTranscript(SAMPLE_TRANSCRIPT, parseSearchQuery('"new relic" OR datadog'));
+      assert.deepEqual(matches.map((m) => m.startMs), [10_000, 16_000]);
+      assert.deepEqual(matches[0].contextBefore, ["How are you monitoring things now?"]);
+      assert.deepEqual(matches[1].contextAfter, ["Our pricing is per seat, and relicensing is free."]);
+
+      // Whole-word matching by default, so "licens" doesn't hit "relicensing"
+      assert.deepEqual(searchTranscript(SAMPLE_TRANSCRIPT, [["licens"]]), []);
+      assert.equal(searchTranscript(SAMPLE_TRANSCRIPT, [["licens"]], { wholeWord: false }).length, 1);
+      assert.equal(searchTranscript(SAMPLE_TRANSCRIPT, [["relic"]]).length, 1);
+
+      // AND-ed terms must all occur in the call
+      assert.deepEqual(searchTranscript(SAMPLE_TRANSCRIPT, [["pricing", "zendesk"]]), []);
+      assert.deepEqual(searchTranscript(SAMPLE_TRANSCRIPT, [["new relic"]], { caseSensitive: true }), []);
+      assert.deepEqual(searchTranscript({ callId: "empty", transcript: [] }, [["pricing"]]), []);
+    });
+
+    await this.runTest("Logic: speaker labels", async () => {
+      const speakers = resolveSpeakers(SAMPLE_TRANSCRIPT, SAMPLE_PARTIES);
+      assert.deepEqual([...speakers.values()].map((s) => s.label), [
+        "Dana Rivera (Account Executive, Internal)",
+        "Sam Lee (VP Engineering, External)",
+      ]);
+      assert.equal(speakers.get("1")?.email, "dana@seller.com");
+
+      // Unknown speakers are lettered in order of first appearance
+      const unknown = resolveSpeakers(SAMPLE_TRANSCRIPT, [SAMPLE_PARTIES[1], { ...SAMPLE_PARTIES[0], name: undefined }]);
+      assert.deepEqual(unknown.get("1"), { speakerId: "1", label: "Unknown speaker A", affiliation: "Internal" });
+      assert.deepEqual([...resolveSpeakers(SAMPLE_TRANSCRIPT).values()].map((s) => s.label), [
+        "Unknown speaker A",
+        "Unknown speaker B",
+      ]);
+    });
+
+    await this.runTest("Logic: transcript windows and chunks", async () => {
+      const starts = (entries: GongTranscript["transcript"]) => entries.flatMap((e) => e.sentences.map((s) => s.start));
+
+      // The window keeps sentences starting in [startMs, endMs), trimming monologues that straddle it
+      assert.deepEqual(starts(filterTranscript(SAMPLE_TRANSCRIPT, { startMs: 4_000, endMs: 16_000 })), [4_000, 10_000]);
+      assert.deepEqual(starts(filterTranscript(SAMPLE_TRANSCRIPT, { topic: "COMPETITION" })), [10_000, 16_000]);
+      assert.deepEqual(starts(filterTranscript(SAMPLE_TRANSCRIPT, { speakerIds: new Set(["1"]) })), [0, 4_000, 22_000]);
+      assert.deepEqual(filterTranscript(SAMPLE_TRANSCRIPT, { topic: "Security" }), []);
+      assert.deepEqual(filterTranscript(SAMPLE_TRANSCRIPT, { startMs: 31_000 }), []);
+
+      const textSize = (entry: GongTranscript["transcript"][number]) => entry.sentences.reduce((sum, s) => sum + s.text.length, 0);
+      const chunks = chunkTranscript(SAMPLE_TRANSCRIPT.transcript, 60, textSize);
+      assert.deepEqual(
+        chunks.map(({ startMs, endMs, firstSentence, lastSentence }) => [startMs, endMs, firstSentence, lastSentence]),
+        [
+          [0, 9_000, 0, 1],
+          [10_000, 20_000, 2, 3],
+          [22_000, 30_000, 4, 4],
+        ]
+      );
+      assert.deepEqual(chunks[0].entries.map((e) => e.sentences.length), [2]);
+
+      // A sentence bigger than the budget still gets a chunk of its own
+      assert.equal(chunkTranscript(SAMPLE_TRANSCRIPT.transcript, 10, textSize).length, 5);
+      assert.deepEqual(chunkTranscript([], 60, textSize), []);
+    });
+
+    await this.runTest("Logic: transcript formats", async () => {
+      const speakers = resolveSpeakers(SAMPLE_TRANSCRIPT, SAMPLE_PARTIES);
+      const [intro, competition, pricing] = SAMPLE_TRANSCRIPT.transcript;
+
+      assert.equal(
+        formatTranscript([intro, competition], speakers),
+        "[Dana Rivera (Account Executive, Internal) - Intro]: Thanks for joining today. How are you monitoring things now?\n\n" +
+          "[Sam Lee (VP Engineering, External) - Competition]: We use New Relic for APM. Datadog is on the shortlist."
+      );
+      assert.equal(
+        formatTranscript([competition], speakers, "markdown"),
+        "## Competition\n\n**Sam Lee (VP Engineering, External)** · `0:10`\n\nWe use New Relic for APM. Datadog is on the shortlist."
+      );
+      assert.equal(
+        formatTranscript([competition], speakers, "srt", { firstCueNumber: 3 }),
+        "3\n00:00:10,000 --> 00:00:16,000\nSam Lee: We use New Relic for APM.\n\n" +
+          "4\n00:00:16,000 --> 00:00:20,000\nSam Lee: Datadog is on the shortlist."
+      );
+      assert.equal(
+        formatTranscript([pricing], speakers, "vtt"),
+        "WEBVTT\n\n1\n00:00:22.000 --> 00:00:30.000\n<v Dana Rivera>Our pricing is per seat, and relicensing is free."
+      );
+      assert.equal(
+        formatTranscript([intro], resolveSpeakers(SAMPLE_TRANSCRIPT), "text"),
+        "Unknown speaker A: Thanks for joining today. How are you monitoring things now?"
+      );
+      assert.equal(formatTranscript([], speakers, "srt"), "");
+
+      assert.equal(formatClock(65_000), "1:05");
+      assert.equal(formatClock(3_725_400), "1:02:05");
+    });
+
+    await this.runTest("Logic: call analytics", async () => {
+      const speakers = resolveSpeakers(SAMPLE_TRANSCRIPT, SAMPLE_PARTIES);
+      const call = analyzeCall(SAMPLE_TRANSCRIPT, speakers, 60_000);
+
+      // Turns: rep 0-9s, buyer 10-20s, rep 22-30s
+      assert.equal(call.talkMs, 27_000);
+      assert.deepEqual(call.speakers.map((s) => [s.speaker.speakerId, s.talkMs, s.longestMonologueMs, s.questions]), [
+        ["1", 17_000, 9_000, 1],
+        ["2", 10_000, 10_000, 0],
+      ]);
+      assert.deepEqual(call.share, { Internal: 17 / 27, External: 10 / 27, Unknown: 0 });
+      assert.deepEqual(call.longestMonologue, { speaker: speakers.get("2"), startMs: 10_000, durationMs: 10_000 });
+      assert.equal(call.interactivity, 2);
+      assert.equal(call.patienceMs, 2_000);
+
+      // Without a recorded duration the transcript span is used
+      const second = analyzeCall({ ...SAMPLE_TRANSCRIPT, callId: "sample-call-2" }, speakers);
+      assert.equal(second.durationMs, 30_000);
+      assert.equal(second.interactivity, 4);
+
+      const aggregate = aggregateAnalytics([call, second]);
+      assert.equal(aggregate.totalDurationMs, 90_000);
+      assert.equal(aggregate.interactivity, 3);
+      assert.deepEqual(aggregate.questions, { Internal: 2, External: 0, Unknown: 0 });
+      assert.deepEqual(
+        aggregate.reps.map((r) => [r.speaker.name, r.calls, r.talkRatio, r.questions, r.patienceMs]),
+        [["Dana Rivera", 2, 17 / 27, 2, 2_000]]
+      );
+
+      // Unknown speakers count toward the Unknown share and never as reps
+      const unknown = aggregateAnalytics([analyzeCall(SAMPLE_TRANSCRIPT, new Map())]);
+      assert.deepEqual(unknown.share, { Internal: 0, External: 0, Unknown: 1 });
+      assert.deepEqual(unknown.reps, []);
+
+      const empty = analyzeCall({ callId: "empty", transcript: [] }, new Map());
+      assert.deepEqual([empty.durationMs, empty.interactivity, empty.longestMonologue, empty.patienceMs], [0, 0, undefined, undefined]);
+      assert.deepEqual(aggregateAnalytics([]).reps, []);
+    });
+
+    await this.runTest("Logic: tracker excerpt alignment", async () => {
+      const tracker = {
+        id: "trk-competitors",
+        name: "Competitors",
+        count: 3,
+        occurrences: [
+          { startTime: 10.5, speakerId: "2" },
+          // Halfway between the buyer's last sentence and the rep's pricing one
+          { startTime: 21, speakerId: "1" },
+          { startTime: 21, speakerId: "2" },
+          // After the transcript ends
+          { startTime: 45 },
+        ],
+      };
+      const call = sampleCall("sample-call", "2026-01-01T00:00:00Z", { content: { trackers: [tracker] } });
+      assert.equal(matchTrackers(call, "COMPET").length, 1);
+      assert.equal(matchTrackers(call, "trk-competitors").length, 1);
+      assert.deepEqual(matchTrackers(call, "Pricing"), []);
+
+      const excerpts = extractTrackerExcerpts(SAMPLE_TRANSCRIPT, [tracker], 6_000);
+      assert.deepEqual(excerpts.map((e) => [e.startMs, e.speakerId]), [
+        [10_000, "2"],
+        [22_000, "1"],
+        [16_000, "2"],
+        [22_000, "1"],
+      ]);
+      assert.deepEqual(excerpts[0], {
+        trackerId: "trk-competitors",
+        trackerName: "Competitors",
+        speakerId: "2",
+        startMs: 10_000,
+        sentence: "We use New Relic for APM.",
+        contextBefore: ["How are you monitoring things now?"],
+        contextAfter: ["Datadog is on the shortlist."],
+      });
+      assert.deepEqual(extractTrackerExcerpts(SAMPLE_TRANSCRIPT, [tracker], 0)[0].contextBefore, []);
+      assert.deepEqual(extractTrackerExcerpts({ callId: "empty", transcript: [] }, [tracker], 6_000), []);
+    });
+
+    await this.runTest("Logic: account timeline and contacts", async () => {
+      const email = (id: string, sentTime: string, from: string, to: string[]): GongEmail => ({
+        id,
+        sentTime,
+        fromEmailAddress: from,
+        toEmailAddresses: to,
+        direction: "Outbound",
+      });
+
+      const contacts = externalContacts([
+        sampleCall("c1", "2026-01-01T10:00:00Z", {
+          parties: [
+            ...SAMPLE_PARTIES,
+            { id: "p3", name: "Pat Kim", emailAddress: "Pat.Kim@GMail.com", affiliation: "External" },
+            { id: "p4", name: "No Email", affiliation: "External" },
+          ],
+        }),
+      ]);
+      assert.deepEqual(contacts, { domains: new Set(["acme.com"]), addresses: new Set(["pat.kim@gmail.com"]) });
+      assert.ok(emailInvolvesContacts(email("e1", "2026-01-02T00:00:00Z", "dana@seller.com", ["pat.kim@gmail.com"]), contacts));
+      assert.ok(emailInvolvesContacts(email("e2", "2026-01-02T00:00:00Z", "Jo@ACME.com", ["dana@seller.com"]), contacts));
+      // Sharing a free-mail domain with a contact doesn't make a stranger part of the account
+      assert.ok(!emailInvolvesContacts(email("e3", "2026-01-02T00:00:00Z", "stranger@gmail.com", ["dana@seller.com"]), contacts));
+
+      const timeline = buildTimeline(
+        [sampleCall("c2", "2026-01-20T00:00:00Z"), sampleCall("c1", "2026-01-01T00:00:00Z")],
+        [email("e1", "2026-01-05T00:00:00Z", "dana@seller.com", ["sam@acme.com"])],
+        { gapDays: 10, until: "2026-02-15T00:00:00Z" }
+      );
+      assert.deepEqual(
+        timeline.map((item) => (item.type === "gap" ? `gap ${item.days}d` : item.type === "call" ? item.call.id : item.email.id)),
+        ["c1", "e1", "gap 15d", "c2", "gap 26d"]
+      );
+      assert.deepEqual(buildTimeline([], [], { gapDays: 10, until: "2026-02-15T00:00:00Z" }), []);
+    });
+
+    await this.runTest("Logic: deal engagement", async () => {
+      const [rep, buyer] = SAMPLE_PARTIES;
+      const first = sampleCall("c1", "2026-01-01T00:00:00Z", {
+        parties: [rep, { ...buyer, title: undefined }],
+        content: {
+          trackers: [
+            { id: "t1", name: "Pricing", count: 2 },
+            { id: "t2", name: "Security", count: 0 },
+          ],
+        },
+      });
+      const second = sampleCall("c2", "2026-01-10T12:00:00Z", {
+        parties: [
+          rep,
+          // Joined twice from different devices
+          { ...buyer, emailAddress: "SAM@acme.com" },
+          { ...buyer, id: "p2b", emailAddress: "sam@acme.com" },
+          { id: "p3", name: "Pat Kim", affiliation: "External" },
+          { id: "p4", affiliation: "External" },
+        ],
+        content: { trackers: [{ id: "t1", name: "Pricing", count: 1 }] },
+      });
+
+      const engagement = summarizeDealEngagement([second, first]);
+      assert.deepEqual(engagement.calls.map((c) => c.id), ["c1", "c2"]);
+      assert.equal(engagement.latestCall?.id, "c2");
+      assert.deepEqual(engagement.buyerContacts, [
+        { name: "Sam Lee", email: "sam@acme.com", title: "VP Engineering", calls: 2, firstSeen: first.started, lastSeen: second.started },
+        { name: "Pat Kim", email: undefined, title: undefined, calls: 1, firstSeen: second.started, lastSeen: second.started },
+      ]);
+      assert.deepEqual(engagement.trackers, [{ id: "t1", name: "Pricing", occurrences: 3, calls: 2 }]);
+      assert.deepEqual(summarizeDealEngagement([]), { calls: [], latestCall: undefined, buyerContacts: [], trackers: [] });
+
+      assert.equal(daysBetween(first.started, second.started), 9);
+      assert.equal(daysBetween(second.started, first.started), -10);
+    });
+
+    await this.runTest("Logic: deal risk flags", async () => {
+      const options = { inactiveDays: 30, closeWindowDays: 30, recentCallDays: 14, now: "2026-03-01T00:00:00Z" };
+      const [rep, buyer] = SAMPLE_PARTIES;
+      const flags = (risks: { flag: string; detail: string }[]) => risks.map((r) => `${r.flag}: ${r.detail}`);
+
+      assert.deepEqual(flags(assessDealRisk({ closeDate: "2026-03-10" }, summarizeDealEngagement([]), options)), [
+        "no_calls: No calls linked to this deal",
+        "closing_without_recent_call: Closes in 9 days with no call in the last 14 days",
+      ]);
+
+      const staleCall = sampleCall("c1", "2026-01-01T00:00:00Z", { parties: [rep, buyer] });
+      assert.deepEqual(flags(assessDealRisk({ closeDate: "2026-02-20" }, summarizeDealEngagement([staleCall]), options)), [
+        "stale: No call in 59 days",
+        "single_threaded: Only one buyer contact on calls: Sam Lee",
+        "closing_without_recent_call: Close date 9 days overdue with no call in the last 14 days",
+      ]);
+
+      // A recent call with two buyer contacts clears every flag, even close to the close date
+      const recentCall = sampleCall("c2", "2026-02-25T00:00:00Z", {
+        parties: [rep, buyer, { id: "p3", name: "Pat Kim", emailAddress: "pat@acme.com", affiliation: "External" }],
+      });
+      assert.deepEqual(assessDealRisk({ closeDate: "2026-03-10" }, summarizeDealEngagement([staleCall, recentCall]), options), []);
+      assert.deepEqual(assessDealRisk({}, summarizeDealEngagement([recentCall]), options), []);
+    });
+
+    await this.runTest("Logic: email bodies, filters and threads", async () => {
+      assert.equal(
+        normalizeEmailBody("Sounds good.\r\n\r\nOn Mon, 5 Jan 2026, dana@seller.com wrote:\r\n> Does Tuesday work?"),
+        "Sounds good."
+      );
+      assert.equal(
+        normalizeEmailBody("See attached.\n\nFrom: Dana Rivera\nSent: Monday\nSubject: Proposal"),
+        "See attached."
+      );
+      assert.equal(
+        normalizeEmailBody("<p>Hi Sam,<br>Pricing &amp; terms attached.</p><blockquote>Earlier message</blockquote>"),
+        "Hi Sam,\nPricing & terms attached."
+      );
+      assert.equal(normalizeEmailBody("Yes.\n> Earlier", { keepQuoted: true }), "Yes.\n> Earlier");
+      assert.equal(normalizeEmailBody(undefined), "");
+
+      assert.equal(threadSubject("Re[2]: FW: Proposal"), "Proposal");
+      assert.equal(threadSubject(undefined), "");
+
+      const email = (id: string, sentTime: string, subject: string, from: string, to: string[], cc: string[] = []): GongEmail => ({
+        id,
+        subject,
+        sentTime,
+        fromEmailAddress: from,
+        toEmailAddresses: to,
+        ccEmailAddresses: cc,
+        direction: from.endsWith("@seller.com") ? "Outbound" : "Inbound",
+      });
+      const proposal = email("e1", "2026-01-01T00:00:00Z", "Proposal", "dana@seller.com", ["sam@acme.com"], ["lead@seller.com"]);
+
+      assert.ok(matchesEmailFilter(proposal, { from: "DANA", to: "lead@", domain: "@ACME.com", direction: "Outbound" }));
+      assert.ok(!matchesEmailFilter(proposal, { to: "dana" }));
+      assert.ok(!matchesEmailFilter(proposal, { domain: "acme.co" }));
+      assert.ok(!matchesEmailFilter(proposal, { direction: "Inbound" }));
+
+      const threads = groupThreads([
+        email("e4", "2026-01-04T00:00:00Z", "Pricing", "dana@seller.com", ["sam@acme.com"]),
+        email("e2", "2026-01-02T00:00:00Z", "RE: Proposal", "sam@acme.com", ["dana@seller.com"]),
+        // Same subject between different people is a different thread
+        email("e3", "2026-01-03T00:00:00Z", "Proposal", "priya@seller.com", ["jo@globex.com"]),
+        proposal,
+      ]);
+      assert.deepEqual(
+        threads.map((t) => [t.subject, t.emails.map((e) => e.id)]),
+        [
+          ["Proposal", ["e1", "e2"]],
+          ["Proposal", ["e3"]],
+          ["Pricing", ["e4"]],
+        ]
+      );
+      assert.deepEqual(threads[0].participants, ["dana@seller.com", "sam@acme.com", "lead@seller.com"]);
+      assert.deepEqual(groupThreads([]), []);
+    });
+
+    await this.runTest("Logic: user lookup and team trees", async () => {
+      const users = [
+        sampleUser("u1", "Dana", "Rivera"),
+        sampleUser("u2", "Priya", "Shah", "u1"),
+        sampleUser("u3", "Marcus", "Okafor", "u2"),
+        sampleUser("u4", "Élena", "Novak", "u2", false),
+        sampleUser("u5", "Tom", "Chen", "u3"),
+      ];
+      const top = (query: string) => findUsers(users, query).map((m) => [m.user.id, Math.round(m.score * 100) / 100]);
+
+      assert.deepEqual(top("u3"), [["u3", 1]]);
+      assert.deepEqual(top("priya sha"), [["u2", 0.9]]);
+      assert.deepEqual(top("elena"), [["u4", 0.9]]);
+      assert.deepEqual(top("rivera dana"), [["u1", 0.75]]);
+      assert.deepEqual(top("dana rivra"), [["u1", 0.63]]);
+      assert.deepEqual(top("xavier"), []);
+      assert.deepEqual(top("  "), []);
+      assert.equal(fullName({ id: "u6", active: true, firstName: "Cher" }), "Cher");
+
+      const names = (node: ReturnType<typeof buildTeamTree>) => flattenTeam(node!).map((u) => u.id);
+      const tree = buildTeamTree(users, "u1");
+      assert.deepEqual(names(tree), ["u1", "u2", "u4", "u3", "u5"]);
+      assert.deepEqual(tree!.reports[0].reports.map((r) => r.user.firstName), ["Élena", "Marcus"]);
+      assert.deepEqual(names(buildTeamTree(users, "u1", 1)), ["u1", "u2"]);
+      assert.equal(buildTeamTree(users, "nobody"), undefined);
+
+      // A manager cycle is cut instead of recursing forever
+      const cyclic = users.map((u) => (u.id === "u1" ? { ...u, managerId: "u5" } : u));
+      assert.deepEqual(names(buildTeamTree(cyclic, "u1")), ["u1", "u2", "u4", "u3", "u5"]);
+    });
+
+    await this.runTest("Logic: team rollups and period comparison", async () => {
+      const users = [
+        sampleUser("u1", "Dana", "Rivera"),
+        sampleUser("u2", "Priya", "Shah", "u1"),
+        sampleUser("u3", "Marcus", "Okafor", "u2"),
+        sampleUser("u4", "Elena", "Novak", "u2"),
+        sampleUser("u5", "Tom", "Chen", "u1"),
+      ];
+      const stats = (values: Record<string, { callsAsHost: number; callsAttended?: number }>) =>
+        Object.entries(values).map(([userId, userAggregateActivityStats]) => ({ userId, userAggregateActivityStats }));
+      const tree = buildTeamTree(users, "u1")!;
+      const current = stats({ u1: { callsAsHost: 10 }, u2: { callsAsHost: 4 }, u3: { callsAsHost: 6, callsAttended: 3 }, u4: { callsAsHost: 6 }, u5: { callsAsHost: 2 } });
+
+      const rollup = rollupTeam(tree, current);
+      assert.deepEqual(rollup.team.members.map((u) => u.id), ["u2", "u4", "u3", "u5"]);
+      // Averages are per rep with stats, whether or not Gong reported that metric for them
+      assert.deepEqual(rollup.team.metrics, { callsAsHost: { total: 18, average: 4.5 }, callsAttended: { total: 3, average: 0.75 } });
+      assert.deepEqual(
+        rollup.subTeams.map((t) => [t.manager.id, t.members.map((u) => u.id), t.metrics.callsAsHost?.total]),
+        [["u2", ["u2", "u4", "u3"], 16]]
+      );
+      // Ties share a rank
+      assert.deepEqual(rollup.reps.map((r) => [r.user.id, r.ranks.callsAsHost]), [["u2", 3], ["u4", 1], ["u3", 1], ["u5", 4]]);
+
+      const withManager = rollupTeam(tree, current, { includeManager: true });
+      assert.deepEqual([withManager.team.metrics.callsAsHost?.total, withManager.reps[0].ranks.callsAsHost], [28, 1]);
+
+      // Reps without stats are left out rather than counted as zero
+      const partial = rollupTeam(tree, stats({ u3: { callsAsHost: 6 } }));
+      assert.deepEqual([partial.team.members.map((u) => u.id), partial.team.metrics.callsAsHost], [["u3"], { total: 6, average: 6 }]);
+      assert.deepEqual(rollupTeam(tree, []).team.metrics, {});
+
+      assert.deepEqual(previousPeriod("2026-04-01", "2026-06-30"), { fromDate: "2025-12-31", toDate: "2026-03-31" });
+      assert.deepEqual(previousPeriod("2026-03-01", "2026-03-01"), { fromDate: "2026-02-28", toDate: "2026-02-28" });
+      assert.deepEqual(compareMetric(15, 10), { current: 15, previous: 10, change: 5, changePercent: 50 });
+      assert.deepEqual(compareMetric(3, undefined), { current: 3, previous: 0, change: 3, changePercent: undefined });
+    });
+
+    await this.runTest("Logic: interaction stats normalization", async () => {
+      const stats = normalizeInteractionStats({
+        userId: "u1",
+        userEmailAddress: "dana@seller.com",
+        personInteractionStats: [
+          { name: "Talk Ratio", value: 0.42 },
+          { name: "Longest Monologue", value: 95 },
+          { name: "Longest Customer Story", value: 60 },
+          { name: "Interactivity", value: 4.2 },
+          { name: "Patience", value: 0.8 },
+          { name: "Question Rate", value: 7 },
+          { name: "Filler Words", value: 3 },
+          { name: "Next Steps", value: undefined },
+        ],
+      });
+      assert.deepEqual(stats, {
+        userId: "u1",
+        email: "dana@seller.com",
+        talkRatio: 0.42,
+        longestMonologueSeconds: 95,
+        longestCustomerStorySeconds: 60,
+        interactivity: 4.2,
+        patienceSeconds: 0.8,
+        questionRate: 7,
+        other: { "Filler Words": 3 },
+      });
+
+      // Some workspaces report talk ratio as a percentage
+      const percentage = normalizeInteractionStats({ userId: "u2", personInteractionStats: [{ name: "talk_ratio", value: 42 }] });
+      assert.equal(percentage.talkRatio, 0.42);
+      assert.deepEqual(normalizeInteractionStats({ userId: "u3", personInteractionStats: [] }), { userId: "u3", email: undefined, other: {} });
+    });
+
+    await this.runTest("Logic: activity buckets and CSV", async () => {
+      // 2026-03-01 is a Sunday, so its ISO week starts on Monday 2026-02-23
+      assert.equal(bucketStart("2026-03-01", "weekly"), "2026-02-23");
+      assert.equal(bucketStart("2026-03-04", "weekly"), "2026-03-02");
+      assert.equal(bucketStart("2026-03-04T18:00:00Z", "daily"), "2026-03-04");
+      assert.equal(bucketStart("2026-03-04", "monthly"), "2026-03-01");
+      assert.deepEqual(bucketRange("2026-03-01", "2026-03-16", "weekly"), ["2026-02-23", "2026-03-02", "2026-03-09", "2026-03-16"]);
+      assert.deepEqual(bucketRange("2026-01-31", "2026-03-01", "monthly"), ["2026-01-01", "2026-02-01", "2026-03-01"]);
+
+      const { activities, rows } = bucketActivity(
+        [
+          {
+            userId: "u1",
+            userDailyActivityStats: [
+              { fromDate: "2026-03-02", callsAsHost: ["c1", "c2"], callsAttended: ["c1"] },
+              { fromDate: "2026-03-05", callsAsHost: ["c3"] },
+              { fromDate: "2026-03-10", callsAttended: [] },
+              // Outside the requested range
+              { fromDate: "2026-04-01", callsAsHost: ["c9"] },
+            ],
+          },
+          { userId: "u2", userDailyActivityStats: [] },
+        ],
+        { fromDate: "2026-03-02", toDate: "2026-03-15", granularity: "weekly" }
+      );
+      assert.deepEqual(activities, ["callsAsHost", "callsAttended"]);
+      // Buckets without activity are filled with zeros
+      assert.deepEqual(rows, [
+        { userId: "u1", bucket: "2026-03-02", counts: { callsAsHost: 3, callsAttended: 1 } },
+        { userId: "u1", bucket: "2026-03-09", counts: { callsAsHost: 0, callsAttended: 0 } },
+        { userId: "u2", bucket: "2026-03-02", counts: { callsAsHost: 0, callsAttended: 0 } },
+        { userId: "u2", bucket: "2026-03-09", counts: { callsAsHost: 0, callsAttended: 0 } },
+      ]);
+      assert.deepEqual(bucketActivity([], { fromDate: "2026-03-02", toDate: "2026-03-15", granularity: "daily" }), { activities: [], rows: [] });
+
+      assert.equal(toCsv(["name", "note"], [["Rivera, Dana", 'said "hi"'], [undefined, 3]]), 'name,note\n"Rivera, Dana","said ""hi"""\n,3');
+    });
+
+    await this.runTest("Logic: scorecard averages", async () => {
+      const templates: GongScorecard[] = [
+        {
+          scorecardId: "sc1",
+          scorecardName: "Discovery Call",
+          questions: [
+            { questionId: "q1", questionText: "Quantified the pain", maxRange: 5 },
+            { questionId: "q2", questionText: "Overall call quality", isOverall: true, maxRange: 5 },
+          ],
+        },
+      ];
+      const answered = (id: string, rep: string, answers: GongAnsweredScorecard["answers"]): GongAnsweredScorecard => ({
+        answeredScorecardId: id,
+        scorecardId: "sc1",
+        scorecardName: "Discovery Call",
+        callId: `call-${id}`,
+        reviewedUserId: rep,
+        reviewerUserId: "mgr",
+        reviewTime: "2026-03-01T00:00:00Z",
+        answers,
+      });
+      const reviews = [
+        answered("a1", "u1", [{ questionId: "q1", score: 4 }, { questionId: "q2", isOverall: true, score: 3 }]),
+        answered("a2", "u1", [{ questionId: "q1", notApplicable: true, score: 1 }, { questionId: "q2", isOverall: true, score: 5 }]),
+        answered("a3", "u2", [
+          { questionId: "q1", score: 2 },
+          { questionId: "q2", isOverall: true, answerText: "Not scored" },
+          // A question since removed from the template
+          { questionId: "q-old", score: 1 },
+        ]),
+        answered("a4", "u3", [{ questionId: "q1", notApplicable: true }]),
+      ];
+
+      const scorecard = { scorecardId: "sc1", scorecardName: "Discovery Call" };
+      assert.deepEqual(averageByQuestion(reviews, templates), [
+        { ...scorecard, questionId: "q1", questionText: "Quantified the pain", isOverall: false, average: 3, answers: 2, maxRange: 5 },
+        { ...scorecard, questionId: "q2", questionText: "Overall call quality", isOverall: true, average: 4, answers: 2, maxRange: 5 },
+        { ...scorecard, questionId: "q-old", questionText: undefined, isOverall: false, average: 1, answers: 1, maxRange: undefined },
+      ]);
+      assert.deepEqual(averageByRep(reviews, templates), [
+        {
+          userId: "u1",
+          scorecards: 2,
+          overallAverage: 4,
+          average: 4,
+          byQuestion: [
+            { questionId: "q1", average: 4, answers: 1 },
+            { questionId: "q2", average: 4, answers: 2 },
+          ],
+        },
+        {
+          userId: "u2",
+          scorecards: 1,
+          overallAverage: undefined,
+          average: 1.5,
+          byQuestion: [
+            { questionId: "q1", average: 2, answers: 1 },
+            { questionId: "q-old", average: 1, answers: 1 },
+          ],
+        },
+        // Only not-applicable answers: counted as reviewed, but no averages
+        { userId: "u3", scorecards: 1, overallAverage: undefined, average: undefined, byQuestion: [] },
+      ]);
+      assert.deepEqual([averageByQuestion([], templates), averageByRep([], templates)], [[], []]);
+
+      // Answers that don't flag the overall question fall back to the template
+      const unflagged = [answered("a5", "u4", [{ questionId: "q1", score: 4 }, { questionId: "q2", score: 2 }])];
+      assert.equal(averageByRep(unflagged, templates)[0].overallAverage, 2);
+      assert.equal(averageByRep(unflagged, [])[0].overallAverage, undefined);
+    });
+  }
+
   printSummary() {
     console.log("\n");
     console.log("=" .repeat(60));
@@ -313,6 +2181,8 @@ class GongMCPTester {
     const reportPath = "test-results.json";
     fs.writeFileSync(reportPath, JSON.stringify(this.results, null, 2));
     console.log(`📄 Detailed results saved to: ${reportPath}\n`);
+
+    if (failed > 0) process.exitCode = 1;
   }
 
   async cleanup() {
@@ -321,6 +2191,7 @@ class GongMCPTester {
     } catch (error) {
       // Ignore cleanup errors
     }
+    await this.mock?.close();
   }
 }
 
@@ -0,0 +1,918 @@
+#!/usr/bin/env node
+
+/**
+ * Offline Mock Gong API Server
+ *
+ * Serves realistic, seeded fixture data for the endpoints GongClient uses, so the
+ * test scripts can run without Gong credentials or network access.
+ *
+ * Features:
+ * - Deterministic fixtures from a seed (users with a manager hierarchy, accounts,
+ *   deals, calls with parties/trackers/topics, transcripts, emails, scorecards)
+ * - Gong-style cursor pagination and 404s for empty result sets
+ * - Injectable 429/500 faults to exercise retry handling
+ *
+ * Usage:
+ *   npm run mock-server                       # listens on http://localhost:4010
+ *   MOCK_PORT=5000 MOCK_SEED=7 npm run mock-server
+ *   MOCK_FAULT_429_RATE=0.2 MOCK_FAULT_500_RATE=0.05 npm run mock-server
+ *
+ * Point the MCP server at it with:
+ *   GONG_API_BASE_URL=http://localhost:4010/v2 GONG_ACCESS_KEY=mock GONG_ACCESS_KEY_SECRET=mock
+ */
+
+import * as http from "http";
+import { pathToFileURL } from "url";
+
+export interface MockFault {
+  status: 429 | 500;
+  /** Chance (0-1) that any request fails with this status */
+  probability?: number;
+  /** Fail every Nth request instead of randomly */
+  everyNth?: number;
+  /** Only apply to endpoints starting with this path, e.g. "/calls" */
+  endpoint?: string;
+}
+
+export interface MockGongServerOptions {
+  port?: number;
+  seed?: number;
+  /** Page size for cursor-paginated endpoints */
+  pageSize?: number;
+  /** Reference "now" for generated dates (default: current time) */
+  now?: Date;
+  faults?: MockFault[];
+  /** Seconds sent in Retry-After for injected 429s */
+  retryAfterSeconds?: number;
+}
+
+export interface MockGongServer {
+  url: string;
+  baseUrl: string;
+  fixtures: MockFixtures;
+  close(): Promise<void>;
+}
+
+// ============ FIXTURES ============
+
+interface MockUser {
+  id: string;
+  emailAddress: string;
+  firstName: string;
+  lastName: string;
+  title: string;
+  managerId?: string;
+  active: boolean;
+  created: string;
+  settings: { webConferencesRecorded: boolean; preventWebConferenceRecording: boolean };
+}
+
+interface MockAccount {
+  id: string;
+  name: string;
+  domain: string;
+  contacts: { name: string; emailAddress: string; title: string }[];
+}
+
+interface MockDeal {
+  id: string;
+  title: string;
+  account: { id: string; name: string };
+  ownerId: string;
+  amount: number;
+  stage: string;
+  status: string;
+  closeDate: string;
+  url: string;
+}
+
+interface MockSentence {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface MockCall {
+  id: string;
+  title: string;
+  scheduled: string;
+  started: string;
+  duration: number;
+  primaryUserId: string;
+  direction: string;
+  scope: string;
+  media: string;
+  language: string;
+  url: string;
+  workspaceId: string;
+  accountId: string;
+  dealId?: string;
+  parties: {
+    id: string;
+    emailAddress: string;
+    name: string;
+    title?: string;
+    userId?: string;
+    speakerId: string;
+    affiliation: "Internal" | "External";
+  }[];
+  content: {
+    trackers: { id: string; name: string; count: number; occurrences: { startTime: number; speakerId: string }[] }[];
+    topics: { name: string; duration: number }[];
+    pointsOfInterest: { type: string; startTime: number }[];
+  };
+  context: { system: string; objects: { objectType: string; objectId: string; fields: { name: string; value: string }[] }[] }[];
+  transcript: { speakerId: string; topic: string; sentences: MockSentence[] }[];
+}
+
+interface MockEmail {
+  id: string;
+  subject: string;
+  fromEmailAddress: string;
+  toEmailAddresses: string[];
+  ccEmailAddresses: string[];
+  sentTime: string;
+  direction: "Inbound" | "Outbound";
+  body: string;
+  accountId: string;
+}
+
+interface MockScorecard {
+  scorecardId: string;
+  scorecardName: string;
+  workspaceId: string;
+  enabled: boolean;
+  created: string;
+  questions: { questionId: string; questionText: string; isOverall: boolean; minRange: number; maxRange: number }[];
+}
+
+interface MockAnsweredScorecard {
+  answeredScorecardId: string;
+  scorecardId: string;
+  scorecardName: string;
+  callId: string;
+  callStartTime: string;
+  reviewedUserId: string;
+  reviewerUserId: string;
+  reviewTime: string;
+  visibilityType: string;
+  answers: { questionId: string; isOverall: boolean; score?: number; answerText?: string; notApplicable: boolean }[];
+}
+
+export interface MockFixtures {
+  users: MockUser[];
+  accounts: MockAccount[];
+  deals: MockDeal[];
+  calls: MockCall[];
+  emails: MockEmail[];
+  libraryFolders: { id: string; name: string; callIds: string[] }[];
+  scorecards: MockScorecard[];
+  answeredScorecards: MockAnsweredScorecard[];
+}
+
+const WORKSPACE_ID = "5550001";
+
+const FIRST_NAMES = ["Dana", "Priya", "Marcus", "Elena", "Tom", "Aisha", "Kenji", "Sofia", "Liam", "Noor", "Owen", "Grace"];
+const LAST_NAMES = ["Rivera", "Shah", "Okafor", "Novak", "Chen", "Haddad", "Sato", "Lopez", "Walsh", "Karimi", "Berg", "Kim"];
+const COMPANIES = ["Acme Corp", "Globex", "Initech", "Umbrella Health", "Stark Logistics", "Wayne Financial", "Hooli", "Vandelay Imports"];
+const STAGES = ["Discovery", "Qualification", "Demo", "Proposal", "Negotiation", "Closed Won", "Closed Lost"];
+const TRACKERS = [
+  { id: "trk-competitors", name: "Competitors", phrases: ["New Relic", "Datadog", "Dynatrace"] },
+  { id: "trk-pricing", name: "Pricing", phrases: ["pricing", "budget", "discount"] },
+  { id: "trk-security", name: "Security", phrases: ["SOC 2", "SSO", "data residency"] },
+];
+const TOPIC_SCRIPTS: { topic: string; internal: string[]; external: string[] }[] = [
+  {
+    topic: "Introduction",
+    internal: ["Thanks for making the time today.", "How has your week been so far?", "Let me quickly walk through the agenda."],
+    external: ["Happy to be here.", "Busy week, we just finished a release.", "Sounds good to me."],
+  },
+  {
+    topic: "Current Setup",
+    internal: ["What are you using for monitoring today?", "How many services do you run in production?", "Who owns incident response on your side?"],
+    external: [
+      "We mostly rely on New Relic for APM right now.",
+      "We run around two hundred services across three regions.",
+      "Our platform team is on call, but alerts are noisy.",
+      "We looked at Datadog last year but it got expensive.",
+    ],
+  },
+  {
+    topic: "Pricing",
+    internal: ["Let me walk you through our pricing model.", "We can offer a multi-year discount.", "What budget range are you working with?"],
+    external: ["Pricing is going to be the big question for our CFO.", "Our budget is fixed until next quarter.", "Is there a discount for annual commitments?"],
+  },
+  {
+    topic: "Security",
+    internal: ["We are SOC 2 Type II certified.", "SSO is included on the business plan.", "Do you have data residency requirements?"],
+    external: ["Our security team will need the SOC 2 report.", "We need SSO with Okta.", "Data residency in the EU is a must for us."],
+  },
+  {
+    topic: "Next Steps",
+    internal: ["Can we schedule a technical deep dive next week?", "I will send over a proposal by Friday.", "Who else should join the next call?"],
+    external: ["Next Tuesday works for us.", "Please loop in our VP of Engineering.", "Send the proposal and we will review it internally."],
+  },
+];
+
+/**
+ * mulberry32 - small deterministic PRNG so the same seed yields the same fixtures
+ */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: T[]): T => items[Math.floor(next() * items.length)],
+    chance: (p: number) => next() < p,
+  };
+}
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+export function generateFixtures(seed = 42, now = new Date()): MockFixtures {
+  const rnd = createRandom(seed);
+  const day = 24 * 60 * 60 * 1000;
+  let idCounter = 1000;
+  const nextId = (prefix = "") => `${prefix}${seed}${++idCounter}`;
+
+  // Users: one VP, two managers, reps under each manager, one inactive rep
+  const users: MockUser[] = [];
+  const addUser = (title: string, managerId?: string, active = true): MockUser => {
+    const firstName = FIRST_NAMES[users.length % FIRST_NAMES.length];
+    const lastName = LAST_NAMES[(users.length * 5) % LAST_NAMES.length];
+    const user: MockUser = {
+      id: nextId(),
+      emailAddress: `${firstName}.${lastName}@example-seller.com`.toLowerCase(),
+      firstName,
+      lastName,
+      title,
+      managerId,
+      active,
+      created: new Date(now.getTime() - rnd.int(200, 900) * day).toISOString(),
+      settings: { webConferencesRecorded: true, preventWebConferenceRecording: false },
+    };
+    users.push(user);
+    return user;
+  };
+  const vp = addUser("VP of Sales");
+  const managers = [addUser("Sales Manager", vp.id), addUser("Sales Manager", vp.id)];
+  const reps = managers.flatMap((manager) => [
+    addUser("Account Executive", manager.id),
+    addUser("Account Executive", manager.id),
+    addUser("Account Executive", manager.id),
+  ]);
+  addUser("Account Executive", managers[1].id, false);
+
+  // Accounts with external contacts
+  const accounts: MockAccount[] = COMPANIES.map((name) => {
+    const domain = `${slug(name)}.com`;
+    const contacts = Array.from({ length: rnd.int(2, 4) }, (_, i) => {
+      const first = FIRST_NAMES[(i * 3 + name.length) % FIRST_NAMES.length];
+      const last = LAST_NAMES[(i * 7 + name.length) % LAST_NAMES.length];
+      return {
+        name: `${first} ${last}`,
+        emailAddress: `${first}.${last}@${domain}`.toLowerCase(),
+        title: rnd.pick(["CTO", "VP Engineering", "Platform Lead", "SRE Manager", "Procurement"]),
+      };
+    });
+    return { id: `001${slug(name).slice(0, 6).padEnd(6, "x")}${rnd.int(100000, 999999)}`, name, domain, contacts };
+  });
+
+  // Deals: one or two per account, owned by a rep
+  const deals: MockDeal[] = accounts.flatMap((account) =>
+    Array.from({ length: rnd.int(1, 2) }, (_, i) => {
+      const stage = rnd.pick(STAGES);
+      const id = `006${slug(account.name).slice(0, 6).padEnd(6, "x")}${i}${rnd.int(10000, 99999)}`;
+      return {
+        id,
+        title: `${account.name} - ${i === 0 ? "Platform" : "Expansion"}`,
+        account: { id: account.id, name: account.name },
+        ownerId: rnd.pick(reps).id,
+        amount: rnd.int(20, 400) * 1000,
+        stage,
+        status: stage === "Closed Won" ? "Won" : stage === "Closed Lost" ? "Lost" : "Open",
+        closeDate: new Date(now.getTime() + rnd.int(-30, 90) * day).toISOString().split("T")[0],
+        url: `https://example.my.salesforce.com/${id}`,
+      };
+    })
+  );
+
+  // Calls over the last ~90 days
+  const calls: MockCall[] = [];
+  for (let i = 0; i < 60; i++) {
+    const account = rnd.pick(accounts);
+    const accountDeals = deals.filter((d) => d.account.id === account.id);
+    const deal = accountDeals.length > 0 && rnd.chance(0.8) ? rnd.pick(accountDeals) : undefined;
+    const host = deal ? users.find((u) => u.id === deal.ownerId)! : rnd.pick(reps);
+    const started = new Date(now.getTime() - rnd.int(0, 90) * day - rnd.int(0, 8) * 60 * 60 * 1000);
+    const id = nextId("7");
+
+    const internal = [host, ...(rnd.chance(0.3) ? [users.find((u) => u.id === host.managerId)!] : [])];
+    const external = account.contacts.slice(0, rnd.int(1, account.contacts.length));
+    const parties: MockCall["parties"] = [
+      ...internal.map((u) => ({
+        id: nextId("p"),
+        emailAddress: u.emailAddress,
+        name: `${u.firstName} ${u.lastName}`,
+        title: u.title,
+        userId: u.id,
+        speakerId: nextId("s"),
+        affiliation: "Internal" as const,
+      })),
+      ...external.map((c) => ({
+        id: nextId("p"),
+        emailAddress: c.emailAddress,
+        name: c.name,
+        title: c.title,
+        speakerId: nextId("s"),
+        affiliation: "External" as const,
+      })),
+    ];
+
+    // Transcript: alternate internal/external monologues through a few topics
+    const internalSpeakers = parties.filter((p) => p.affiliation === "Internal");
+    const externalSpeakers = parties.filter((p) => p.affiliation === "External");
+    const scripts = [TOPIC_SCRIPTS[0], ...TOPIC_SCRIPTS.slice(1, -1).filter(() => rnd.chance(0.7)), TOPIC_SCRIPTS[TOPIC_SCRIPTS.length - 1]];
+    const transcript: MockCall["transcript"] = [];
+    const topics: { name: string; duration: number }[] = [];
+    let clock = 0;
+    for (const script of scripts) {
+      const topicStart = clock;
+      for (let turn = 0; turn < rnd.int(2, 4); turn++) {
+        for (const side of ["internal", "external"] as const) {
+          const speaker = side === "internal" ? rnd.pick(internalSpeakers) : rnd.pick(externalSpeakers);
+          clock += rnd.int(200, 2500); // pause before speaking
+          const sentences: MockSentence[] = Array.from({ length: rnd.int(1, 3) }, () => {
+            const text = rnd.pick(script[side]);
+            const start = clock;
+            clock += 1500 + text.length * 60;
+            return { start, end: clock, text };
+          });
+          transcript.push({ speakerId: speaker.speakerId, topic: script.topic, sentences });
+        }
+      }
+      topics.push({ name: script.topic, duration: Math.round((clock - topicStart) / 1000) });
+    }
+
+    // Trackers: occurrences wherever a sentence contains one of the tracker phrases
+    const trackers = TRACKERS.map((tracker) => {
+      const occurrences = transcript.flatMap((mono) =>
+        mono.sentences
+          .filter((s) => tracker.phrases.some((phrase) => s.text.toLowerCase().includes(phrase.toLowerCase())))
+          .map((s) => ({ startTime: s.start / 1000, speakerId: mono.speakerId }))
+      );
+      return { id: tracker.id, name: tracker.name, count: occurrences.length, occurrences };
+    }).filter((t) => t.count > 0);
+
+    const objects = [
+      { objectType: "Account", objectId: account.id, fields: [{ name: "Name", value: account.name }] },
+      ...(deal
+        ? [{ objectType: "Opportunity", objectId: deal.id, fields: [{ name: "Name", value: deal.title }, { name: "StageName", value: deal.stage }] }]
+        : []),
+    ];
+
+    calls.push({
+      id,
+      title: `${account.name} <> Example Seller | ${rnd.pick(["Discovery", "Demo", "Technical Deep Dive", "Pricing Review", "Check-in"])}`,
+      scheduled: started.toISOString(),
+      started: started.toISOString(),
+      duration: Math.round(clock / 1000),
+      primaryUserId: host.id,
+      direction: "Conference",
+      scope: "External",
+      media: "Video",
+      language: "eng",
+      url: `https://app.gong.io/call?id=${id}`,
+      workspaceId: WORKSPACE_ID,
+      accountId: account.id,
+      dealId: deal?.id,
+      parties,
+      content: {
+        trackers,
+        topics,
+        pointsOfInterest: [{ type: "ActionItem", startTime: Math.round(clock / 1000) - 30 }],
+      },
+      context: [{ system: "Salesforce", objects }],
+      transcript,
+    });
+  }
+  calls.sort((a, b) => a.started.localeCompare(b.started));
+
+  // Emails: short threads per account, replies quote the previous message
+  const emails: MockEmail[] = [];
+  for (const account of accounts) {
+    const rep = users.find((u) => u.id === deals.find((d) => d.account.id === account.id)?.ownerId) ?? rnd.pick(reps);
+    const contact = rnd.pick(account.contacts);
+    const subject = rnd.pick(["Follow-up from our call", "Proposal", "Security questionnaire", "Pricing options"]);
+    let sent = now.getTime() - rnd.int(5, 80) * day;
+    let previous: { body: string; from: string; sentTime: string } | undefined;
+
+    for (let i = 0; i < rnd.int(1, 4); i++) {
+      const outbound = i % 2 === 0;
+      const from = outbound ? rep.emailAddress : contact.emailAddress;
+      const to = outbound ? contact.emailAddress : rep.emailAddress;
+      const fresh = outbound
+        ? `Hi ${contact.name.split(" ")[0]},\n\nThanks again for your time. Attaching the details we discussed.\n\nBest,\n${rep.firstName}`
+        : `Thanks ${rep.firstName}, we will review internally and get back to you this week.\n\n${contact.name}`;
+      const quoted = previous
+        ? `\n\nOn ${new Date(previous.sentTime).toUTCString()}, ${previous.from} wrote:\n${previous.body.split("\n").map((l) => `> ${l}`).join("\n")}`
+        : "";
+      const sentTime = new Date(sent).toISOString();
+
+      emails.push({
+        id: nextId("e"),
+        subject: i === 0 ? subject : `RE: ${subject}`,
+        fromEmailAddress: from,
+        toEmailAddresses: [to],
+        ccEmailAddresses: outbound && rnd.chance(0.3) ? [users.find((u) => u.id === rep.managerId)!.emailAddress] : [],
+        sentTime,
+        direction: outbound ? "Outbound" : "Inbound",
+        body: fresh + quoted,
+        accountId: account.id,
+      });
+
+      previous = { body: fresh, from, sentTime };
+      sent += rnd.int(1, 5) * day;
+    }
+  }
+  emails.sort((a, b) => a.sentTime.localeCompare(b.sentTime));
+
+  const libraryFolders = [
+    { id: nextId("f"), name: "Great Discovery Calls", callIds: calls.slice(0, 3).map((c) => c.id) },
+    { id: nextId("f"), name: "Competitive Wins", callIds: calls.slice(3, 5).map((c) => c.id) },
+  ];
+
+  // Scorecards: managers review a sample of their reps' calls
+  const scorecards: MockScorecard[] = [
+    {
+      scorecardId: nextId("sc"),
+      scorecardName: "Discovery Call",
+      workspaceId: WORKSPACE_ID,
+      enabled: true,
+      created: new Date(now.getTime() - 200 * day).toISOString(),
+      questions: [
+        "Did the rep uncover the customer's current tooling?",
+        "Did the rep quantify the business pain?",
+        "Did the rep agree clear next steps?",
+        "Overall call quality",
+      ].map((questionText, i, all) => ({
+        questionId: nextId("q"),
+        questionText,
+        isOverall: i === all.length - 1,
+        minRange: 1,
+        maxRange: 5,
+      })),
+    },
+    {
+      scorecardId: nextId("sc"),
+      scorecardName: "Demo Execution",
+      workspaceId: WORKSPACE_ID,
+      enabled: true,
+      created: new Date(now.getTime() - 150 * day).toISOString(),
+      questions: ["Tailored the demo to stated pains", "Handled objections", "Overall demo quality"].map(
+        (questionText, i, all) => ({ questionId: nextId("q"), questionText, isOverall: i === all.length - 1, minRange: 1, maxRange: 5 })
+      ),
+    },
+  ];
+  const answeredScorecards: MockAnsweredScorecard[] = calls
+    .filter(() => rnd.chance(0.35))
+    .flatMap((call) => {
+      const host = users.find((u) => u.id === call.primaryUserId);
+      if (!host?.managerId) return [];
+      const scorecard = call.title.includes("Demo") ? scorecards[1] : scorecards[0];
+      return [
+        {
+          answeredScorecardId: nextId("as"),
+          scorecardId: scorecard.scorecardId,
+          scorecardName: scorecard.scorecardName,
+          callId: call.id,
+          callStartTime: call.started,
+          reviewedUserId: host.id,
+          reviewerUserId: host.managerId,
+          reviewTime: new Date(Date.parse(call.started) + rnd.int(1, 5) * day).toISOString(),
+          visibilityType: "PUBLIC",
+          answers: scorecard.questions.map((q) =>
+            rnd.chance(0.1) && !q.isOverall
+              ? { questionId: q.questionId, isOverall: q.isOverall, notApplicable: true }
+              : { questionId: q.questionId, isOverall: q.isOverall, score: rnd.int(2, 5), notApplicable: false }
+          ),
+        },
+      ];
+    });
+
+  return { users, accounts, deals, calls, emails, libraryFolders, scorecards, answeredScorecards };
+}
+
+// ============ HTTP SERVER ============
+
+class MockHttpError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString("base64");
+}
+
+function decodeCursor(cursor: unknown): number {
+  if (typeof cursor !== "string" || !cursor) return 0;
+  try {
+    return JSON.parse(Buffer.from(cursor, "base64").toString("utf8")).offset ?? 0;
+  } catch {
+    throw new MockHttpError(400, "Invalid cursor");
+  }
+}
+
+function inRange(iso: string, from?: unknown, to?: unknown): boolean {
+  const time = Date.parse(iso);
+  if (typeof from === "string" && from && time < Date.parse(from)) return false;
+  if (typeof to === "string" && to && time >= Date.parse(to)) return false;
+  return true;
+}
+
+/**
+ * Stable per-user coaching activity counts (not derivable from calls)
+ */
+function userActivity(userId: string) {
+  const rnd = createRandom(Number(userId.slice(-6)));
+  return {
+    callsGaveFeedback: rnd.int(0, 4),
+    callsReceivedFeedback: rnd.int(0, 3),
+    callsScorecardsFilled: rnd.int(0, 3),
+    ownCallsListenedTo: rnd.int(0, 5),
+    othersCallsListenedTo: rnd.int(0, 6),
+  };
+}
+
+/**
+ * Gong-style interaction stats for a user, computed from the transcripts of the calls they spoke on
+ */
+function userInteraction(userId: string, calls: MockCall[]) {
+  let ownMs = 0;
+  let totalMs = 0;
+  let longestMonologue = 0;
+  let longestStory = 0;
+  let questions = 0;
+  let switchesPerMinute = 0;
+  const gaps: number[] = [];
+  let callCount = 0;
+
+  for (const call of calls) {
+    const speakerId = call.parties.find((p) => p.userId === userId)?.speakerId;
+    if (!speakerId || !call.transcript.some((m) => m.speakerId === speakerId)) continue;
+    callCount++;
+    const external = new Set(call.parties.filter((p) => p.affiliation === "External").map((p) => p.speakerId));
+
+    for (const [i, mono] of call.transcript.entries()) {
+      const first = mono.sentences[0];
+      const last = mono.sentences[mono.sentences.length - 1];
+      const talk = mono.sentences.reduce((sum, s) => sum + (s.end - s.start), 0);
+      totalMs += talk;
+      if (mono.speakerId === speakerId) {
+        ownMs += talk;
+        longestMonologue = Math.max(longestMonologue, last.end - first.start);
+        questions += mono.sentences.filter((s) => s.text.endsWith("?")).length;
+        const previous = call.transcript[i - 1];
+        if (previous && external.has(previous.speakerId)) {
+          gaps.push(Math.max(0, first.start - previous.sentences[previous.sentences.length - 1].end));
+        }
+      } else if (external.has(mono.speakerId)) {
+        longestStory = Math.max(longestStory, last.end - first.start);
+      }
+    }
+    switchesPerMinute += (call.transcript.length - 1) / (call.duration / 60);
+  }
+
+  if (callCount === 0) return [];
+  return [
+    { name: "Talk Ratio", value: Number((ownMs / totalMs).toFixed(2)) },
+    { name: "Longest Monologue", value: Math.round(longestMonologue / 1000) },
+    { name: "Longest Customer Story", value: Math.round(longestStory / 1000) },
+    { name: "Interactivity", value: Number((switchesPerMinute / callCount).toFixed(1)) },
+    { name: "Patience", value: gaps.length > 0 ? Number((gaps.reduce((a, b) => a + b, 0) / gaps.length / 1000).toFixed(2)) : 0 },
+    { name: "Question Rate", value: Number((questions / callCount).toFixed(1)) },
+  ];
+}
+
+/**
+ * Public call shape (without fixture-only fields)
+ */
+function toApiCall(call: MockCall, extensive: boolean) {
+  const { transcript, accountId, dealId, content, context, ...rest } = call;
+  return extensive ? { ...rest, content, context } : { ...rest };
+}
+
+export async function startMockGongServer(options: MockGongServerOptions = {}): Promise<MockGongServer> {
+  const fixtures = generateFixtures(options.seed ?? 42, options.now ?? new Date());
+  const pageSize = options.pageSize ?? 25;
+  const faults = options.faults ?? [];
+  let requestCount = 0;
+
+  const page = <T>(items: T[], cursor: unknown) => {
+    const offset = decodeCursor(cursor);
+    const records = items.slice(offset, offset + pageSize);
+    const nextOffset = offset + records.length;
+    return {
+      items: records,
+      records: {
+        totalRecords: items.length,
+        currentPageSize: records.length,
+        currentPageNumber: Math.floor(offset / pageSize),
+        cursor: nextOffset < items.length ? encodeCursor(nextOffset) : undefined,
+      },
+    };
+  };
+
+  const requireAny = <T>(items: T[], what: string): T[] => {
+    if (items.length === 0) throw new MockHttpError(404, `No ${what} found corresponding to the provided filters`);
+    return items;
+  };
+
+  const routes: Record<string, (query: URLSearchParams, body: any) => unknown> = {
+    "GET /calls": (query) => {
+      const calls = requireAny(
+        fixtures.calls.filter(
+          (c) =>
+            inRange(c.started, query.get("fromDateTime"), query.get("toDateTime")) &&
+            (!query.get("workspaceId") || c.workspaceId === query.get("workspaceId"))
+        ),
+        "calls"
+      );
+      const { items, records } = page(calls, query.get("cursor"));
+      return { records, calls: items.map((c) => toApiCall(c, false)) };
+    },
+
+    "POST /calls/extensive": (_query, body) => {
+      const filter = body.filter ?? {};
+      const calls = requireAny(
+        fixtures.calls.filter(
+          (c) =>
+            inRange(c.started, filter.fromDateTime, filter.toDateTime) &&
+            (!filter.callIds || filter.callIds.includes(c.id)) &&
+            (!filter.primaryUserIds || filter.primaryUserIds.includes(c.primaryUserId)) &&
+            (!filter.workspaceId || c.workspaceId === filter.workspaceId)
+        ),
+        "calls"
+      );
+      const { items, records } = page(calls, body.cursor);
+      return { records, calls: items.map((c) => toApiCall(c, true)) };
+    },
+
+    "POST /calls/transcript": (_query, body) => {
+      const filter = body.filter ?? {};
+      const calls = requireAny(
+        fixtures.calls.filter(
+          (c) => inRange(c.started, filter.fromDateTime, filter.toDateTime) && (!filter.callIds || filter.callIds.includes(c.id))
+        ),
+        "transcripts"
+      );
+      const { items, records } = page(calls, body.cursor);
+      // Like Gong, calls that were never transcribed are left out rather than returned empty
+      const transcribed = items.filter((c) => c.transcript.length > 0);
+      return { records, callTranscripts: transcribed.map((c) => ({ callId: c.id, transcript: c.transcript })) };
+    },
+
+    "GET /users": (query) => {
+      const { items, records } = page(fixtures.users, query.get("cursor"));
+      return { records, users: items };
+    },
+
+    "POST /users/extensive": (_query, body) => {
+      const userIds: string[] | undefined = body.filter?.userIds;
+      const users = requireAny(fixtures.users.filter((u) => !userIds || userIds.includes(u.id)), "users");
+      const { items, records } = page(users, body.cursor);
+      return { records, users: items };
+    },
+
+    "POST /crm/object/calls": (_query, body) => {
+      const filter = body.filter ?? {};
+      const objectIds: string[] = filter.objectIds ?? [];
+      return {
+        crmCallsLinks: objectIds.map((objectId) => ({
+          objectId,
+          calls: fixtures.calls
+            .filter(
+              (c) =>
+                (filter.objectType === "Account" ? c.accountId === objectId : c.dealId === objectId) &&
+                inRange(c.started, filter.fromDateTime, filter.toDateTime)
+            )
+            .map((c) => ({ callId: c.id })),
+        })),
+      };
+    },
+
+    "POST /crm/deals": (_query, body) => {
+      const { items, records } = page(fixtures.deals, body.cursor);
+      return { records, deals: items };
+    },
+
+    "POST /emails": (_query, body) => {
+      const filter = body.filter ?? {};
+      const emails = fixtures.emails.filter((e) => inRange(e.sentTime, filter.fromDateTime, filter.toDateTime));
+      const { items, records } = page(emails, body.cursor);
+      return { records, emailActivities: items.map(({ accountId, ...email }) => email) };
+    },
+
+    "POST /stats/activity/aggregate": (_query, body) => {
+      const filter = body.filter ?? {};
+      const from = filter.fromDate ? `${filter.fromDate}T00:00:00Z` : undefined;
+      const to = filter.toDate ? `${filter.toDate}T23:59:59Z` : undefined;
+      const userIds: string[] | undefined = filter.userIds;
+      const calls = fixtures.calls.filter((c) => inRange(c.started, from, to));
+
+      return {
+        fromDateTime: from,
+        toDateTime: to,
+        usersStats: fixtures.users
+          .filter((u) => !userIds || userIds.includes(u.id))
+          .map((u) => ({
+            userId: u.id,
+            userEmailAddress: u.emailAddress,
+            userAggregateActivityStats: {
+              callsAsHost: calls.filter((c) => c.primaryUserId === u.id).length,
+              callsAttended: calls.filter((c) => c.parties.some((p) => p.userId === u.id)).length,
+              ...userActivity(u.id),
+            },
+          })),
+      };
+    },
+
+    "POST /stats/activity/day-by-day": (_query, body) => {
+      const filter = body.filter ?? {};
+      const userIds: string[] | undefined = filter.userIds;
+      const days: string[] = [];
+      for (let day = Date.parse(`${filter.fromDate}T00:00:00Z`); day <= Date.parse(`${filter.toDate}T00:00:00Z`); day += 86400000) {
+        days.push(new Date(day).toISOString().slice(0, 10));
+      }
+
+      const activities = fixtures.users
+        .filter((u) => !userIds || userIds.includes(u.id))
+        .map((u) => ({
+          userId: u.id,
+          userEmailAddress: u.emailAddress,
+          userDailyActivityStats: days.map((day) => {
+            const calls = fixtures.calls.filter((c) => c.started.startsWith(day));
+            return {
+              fromDate: day,
+              toDate: day,
+              callsAsHost: calls.filter((c) => c.primaryUserId === u.id).map((c) => c.id),
+              callsAttended: calls.filter((c) => c.parties.some((p) => p.userId === u.id)).map((c) => c.id),
+              callsGaveFeedback: [],
+              ownCallsListenedTo: [],
+              othersCallsListenedTo: [],
+            };
+          }),
+        }));
+      const { items, records } = page(requireAny(activities, "users"), body.cursor);
+      return { records, usersDetailedActivities: items };
+    },
+
+    "GET /settings/scorecards": () => ({ scorecards: fixtures.scorecards }),
+
+    "POST /stats/activity/scorecards": (_query, body) => {
+      const filter = body.filter ?? {};
+      // Review dates are whole days, both ends inclusive
+      const reviewFrom = filter.reviewFromDate ? `${filter.reviewFromDate.slice(0, 10)}T00:00:00Z` : undefined;
+      const reviewTo = filter.reviewToDate ? `${filter.reviewToDate.slice(0, 10)}T23:59:59Z` : undefined;
+      const scorecards = requireAny(
+        fixtures.answeredScorecards.filter(
+          (a) =>
+            inRange(a.reviewTime, reviewFrom, reviewTo) &&
+            inRange(a.callStartTime, filter.callFromDate, filter.callToDate) &&
+            (!filter.scorecardIds || filter.scorecardIds.includes(a.scorecardId)) &&
+            (!filter.reviewedUserIds || filter.reviewedUserIds.includes(a.reviewedUserId))
+        ),
+        "answered scorecards"
+      );
+      const { items, records } = page(scorecards, body.cursor);
+      return { records, answeredScorecards: items };
+    },
+
+    "POST /stats/interaction": (_query, body) => {
+      const filter = body.filter ?? {};
+      const from = filter.fromDate ? `${filter.fromDate}T00:00:00Z` : undefined;
+      const to = filter.toDate ? `${filter.toDate}T23:59:59Z` : undefined;
+      const userIds: string[] | undefined = filter.userIds;
+      const calls = fixtures.calls.filter((c) => inRange(c.started, from, to));
+
+      const stats = requireAny(
+        fixtures.users
+          .filter((u) => !userIds || userIds.includes(u.id))
+          .map((u) => ({ userId: u.id, userEmailAddress: u.emailAddress, personInteractionStats: userInteraction(u.id, calls) }))
+          .filter((u) => u.personInteractionStats.length > 0),
+        "interaction stats"
+      );
+      const { items, records } = page(stats, body.cursor);
+      return { records, peopleInteractionStats: items };
+    },
+
+    "GET /library/folders": () => ({
+      libraryFolders: fixtures.libraryFolders.map(({ id, name }) => ({ id, name })),
+    }),
+  };
+
+  const injectFault = (path: string) => {
+    for (const fault of faults) {
+      if (fault.endpoint && !path.startsWith(fault.endpoint)) continue;
+      const hit = fault.everyNth ? requestCount % fault.everyNth === 0 : Math.random() < (fault.probability ?? 0);
+      if (!hit) continue;
+
+      if (fault.status === 429) {
+        throw new MockHttpError(429, "API request limit exceeded", {
+          "Retry-After": String(options.retryAfterSeconds ?? 1),
+        });
+      }
+      throw new MockHttpError(500, "Internal server error (injected)");
+    }
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const requestId = `mock-${++requestCount}`;
+    const send = (status: number, payload: unknown, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { "Content-Type": "application/json", ...headers });
+      res.end(JSON.stringify(payload));
+    };
+
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      if (!url.pathname.startsWith("/v2/")) throw new MockHttpError(404, `Unknown path ${url.pathname}`);
+      const path = url.pathname.slice(3);
+
+      if (!req.headers.authorization) throw new MockHttpError(401, "Missing Authorization header");
+
+      const route = routes[`${req.method} ${path}`];
+      if (!route) throw new MockHttpError(404, `No mock route for ${req.method} ${path}`);
+
+      injectFault(path);
+
+      let raw = "";
+      for await (const chunk of req) raw += chunk;
+      let body: unknown = {};
+      try {
+        body = raw ? JSON.parse(raw) : {};
+      } catch {
+        throw new MockHttpError(400, "Request body is not valid JSON");
+      }
+
+      send(200, { requestId, ...(route(url.searchParams, body) as object) });
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        send(error.status, { requestId, errors: [error.message] }, error.headers);
+      } else {
+        send(500, { requestId, errors: [String(error)] });
+      }
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const address = server.address() as { port: number };
+  const url = `http://127.0.0.1:${address.port}`;
+
+  return {
+    url,
+    baseUrl: `${url}/v2`,
+    fixtures,
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
+
+// ============ CLI ============
+
+async function main() {
+  const faults: MockFault[] = [];
+  if (process.env.MOCK_FAULT_429_RATE) faults.push({ status: 429, probability: Number(process.env.MOCK_FAULT_429_RATE) });
+  if (process.env.MOCK_FAULT_500_RATE) faults.push({ status: 500, probability: Number(process.env.MOCK_FAULT_500_RATE) });
+
+  const mock = await startMockGongServer({
+    port: Number(process.env.MOCK_PORT || 4010),
+    seed: Number(process.env.MOCK_SEED || 42),
+    faults,
+  });
+
+  console.log(`Mock Gong API listening on ${mock.baseUrl}`);
+  console.log(`  ${mock.fixtures.users.length} users, ${mock.fixtures.calls.length} calls, ${mock.fixtures.deals.length} deals, ${mock.fixtures.emails.length} emails`);
+  console.log(`\nRun the MCP server against it with:`);
+  console.log(`  GONG_API_BASE_URL=${mock.baseUrl} GONG_ACCESS_KEY=mock GONG_ACCESS_KEY_SECRET=mock node dist/index.js`);
+
+  process.on("SIGINT", async () => {
+    await mock.close();
+    process.exit(0);
+  });
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? "").href) {
+  main().catch((error) => {
+    console.error("Fatal error:", error);
+    process.exit(1);
+  });
+}
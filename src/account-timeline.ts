@@ -0,0 +1,115 @@
+/**
+ * Account Timeline
+ * Merges an account's calls and emails into one chronological list and marks stretches
+ * with no engagement. Gong doesn't link emails to CRM accounts, so emails are matched
+ * to an account by the email domains of its external contacts, or by full address for
+ * contacts on free-mail domains that many unrelated people share.
+ */
+
+import type { GongCall, GongEmail } from "./gong-client.js";
+
+export type TimelineTouch = { type: "call"; at: string; call: GongCall } | { type: "email"; at: string; email: GongEmail };
+
+export type TimelineItem = TimelineTouch | { type: "gap"; from: string; to: string; days: number };
+
+export interface AccountContacts {
+  /** Company email domains */
+  domains: Set<string>;
+  /** Full addresses of contacts on free-mail domains */
+  addresses: Set<string>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FREE_MAIL_DOMAINS = new Set([
+  "163.com",
+  "aol.com",
+  "gmail.com",
+  "gmx.com",
+  "gmx.de",
+  "googlemail.com",
+  "hotmail.co.uk",
+  "hotmail.com",
+  "icloud.com",
+  "live.com",
+  "mac.com",
+  "mail.com",
+  "me.com",
+  "msn.com",
+  "outlook.com",
+  "proton.me",
+  "protonmail.com",
+  "qq.com",
+  "web.de",
+  "yahoo.co.uk",
+  "yahoo.com",
+  "yandex.com",
+  "ymail.com",
+  "zoho.com",
+]);
+
+/**
+ * Lowercased domain of an email address, without the "@"
+ */
+export function emailDomain(address: string | undefined): string | undefined {
+  const at = address?.lastIndexOf("@") ?? -1;
+  return at >= 0 ? address!.slice(at + 1).trim().toLowerCase() || undefined : undefined;
+}
+
+/**
+ * The external participants on a set of calls: their company domains, and the full
+ * addresses of those on free-mail domains
+ */
+export function externalContacts(calls: GongCall[]): AccountContacts {
+  const contacts: AccountContacts = { domains: new Set(), addresses: new Set() };
+  for (const party of calls.flatMap((call) => call.parties ?? [])) {
+    const domain = emailDomain(party.emailAddress);
+    if (party.affiliation !== "External" || !domain) continue;
+    if (FREE_MAIL_DOMAINS.has(domain)) contacts.addresses.add(party.emailAddress!.trim().toLowerCase());
+    else contacts.domains.add(domain);
+  }
+  return contacts;
+}
+
+export function callInvolvesDomains(call: GongCall, domains: Set<string>): boolean {
+  return (call.parties ?? []).some((p) => domains.has(emailDomain(p.emailAddress) ?? ""));
+}
+
+export function emailInvolvesContacts(email: GongEmail, contacts: AccountContacts): boolean {
+  return [email.fromEmailAddress, ...email.toEmailAddresses, ...(email.ccEmailAddresses ?? [])].some(
+    (address) => contacts.addresses.has(address.trim().toLowerCase()) || contacts.domains.has(emailDomain(address) ?? "")
+  );
+}
+
+/**
+ * Sort calls and emails oldest first, inserting a gap marker wherever consecutive
+ * touches are more than gapDays apart. When `until` is given, silence between the
+ * last touch and that date is marked too.
+ */
+export function buildTimeline(
+  calls: GongCall[],
+  emails: GongEmail[],
+  options: { gapDays: number; until?: string }
+): TimelineItem[] {
+  const touches: TimelineTouch[] = [
+    ...calls.map((call) => ({ type: "call" as const, at: call.started, call })),
+    ...emails.map((email) => ({ type: "email" as const, at: email.sentTime, email })),
+  ].sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+
+  const items: TimelineItem[] = [];
+  let previous: string | undefined;
+  const markGap = (to: string) => {
+    if (previous === undefined) return;
+    const days = (Date.parse(to) - Date.parse(previous)) / DAY_MS;
+    if (days > options.gapDays) items.push({ type: "gap", from: previous, to, days: Math.floor(days) });
+  };
+
+  for (const touch of touches) {
+    markGap(touch.at);
+    items.push(touch);
+    previous = touch.at;
+  }
+  if (options.until) markGap(options.until);
+
+  return items;
+}
@@ -0,0 +1,94 @@
+/**
+ * Activity Trends
+ * Turns day-by-day activity into per-user counts bucketed by day, week (ISO, starting
+ * Monday) or month, with empty buckets filled in so series chart without gaps.
+ */
+
+import type { GongUserDailyActivity } from "./gong-client.js";
+
+export type Granularity = "daily" | "weekly" | "monthly";
+
+export interface ActivityRow {
+  userId: string;
+  /** First day of the bucket, YYYY-MM-DD */
+  bucket: string;
+  counts: Record<string, number>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start date (YYYY-MM-DD) of the bucket containing a date
+ */
+export function bucketStart(date: string, granularity: Granularity): string {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  if (granularity === "monthly") {
+    day.setUTCDate(1);
+  } else if (granularity === "weekly") {
+    day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  }
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Every bucket start between two dates, inclusive
+ */
+export function bucketRange(fromDate: string, toDate: string, granularity: Granularity): string[] {
+  const buckets: string[] = [];
+  const end = Date.parse(`${toDate.slice(0, 10)}T00:00:00Z`);
+  for (let bucket = bucketStart(fromDate, granularity); Date.parse(bucket) <= end; ) {
+    buckets.push(bucket);
+    const next = new Date(Date.parse(bucket));
+    if (granularity === "monthly") next.setUTCMonth(next.getUTCMonth() + 1);
+    else next.setTime(next.getTime() + (granularity === "weekly" ? 7 : 1) * DAY_MS);
+    bucket = next.toISOString().slice(0, 10);
+  }
+  return buckets;
+}
+
+/**
+ * Count each activity per user and bucket. Activities reported as call ID lists count
+ * their length; numeric activities are summed.
+ */
+export function bucketActivity(
+  users: GongUserDailyActivity[],
+  options: { fromDate: string; toDate: string; granularity: Granularity }
+): { activities: string[]; rows: ActivityRow[] } {
+  const buckets = bucketRange(options.fromDate, options.toDate, options.granularity);
+  const activities = new Set<string>();
+  const rows: ActivityRow[] = [];
+
+  for (const user of users) {
+    const byBucket = new Map(buckets.map((bucket) => [bucket, {} as Record<string, number>]));
+
+    for (const day of user.userDailyActivityStats) {
+      const counts = byBucket.get(bucketStart(day.fromDate, options.granularity));
+      if (!counts) continue;
+      for (const [activity, value] of Object.entries(day)) {
+        const count = Array.isArray(value) ? value.length : typeof value === "number" ? value : undefined;
+        if (count === undefined) continue;
+        activities.add(activity);
+        counts[activity] = (counts[activity] ?? 0) + count;
+      }
+    }
+
+    for (const [bucket, counts] of byBucket) rows.push({ userId: user.userId, bucket, counts });
+  }
+
+  const sortedActivities = [...activities].sort();
+  for (const row of rows) {
+    for (const activity of sortedActivities) row.counts[activity] ??= 0;
+  }
+  return { activities: sortedActivities, rows };
+}
+
+/**
+ * RFC 4180 CSV with a header row
+ */
+export function toCsv(header: string[], rows: (string | number | undefined)[][]): string {
+  const cell = (value: string | number | undefined) => {
+    const text = value === undefined ? "" : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [header, ...rows].map((row) => row.map(cell).join(",")).join("\n");
+}
@@ -0,0 +1,208 @@
+/**
+ * Call Analytics
+ * Conversation metrics derived from transcript sentence timings: talk time and ratio,
+ * internal vs external share, longest monologue, interactivity, questions and patience.
+ * All times are milliseconds; rounding for display is left to the caller.
+ */
+
+import type { GongTranscript } from "./gong-client.js";
+import type { ResolvedSpeaker } from "./speakers.js";
+
+type Affiliation = ResolvedSpeaker["affiliation"];
+
+export interface SpeakerAnalytics {
+  speaker: ResolvedSpeaker;
+  talkMs: number;
+  /** Share of all talk time on the call, 0-1 */
+  talkRatio: number;
+  longestMonologueMs: number;
+  questions: number;
+  /** Pauses before this speaker answered an external speaker (internal speakers only) */
+  responseGapsMs: number[];
+}
+
+export interface CallAnalytics {
+  callId: string;
+  /** Call length: the recorded duration when known, otherwise the transcript span */
+  durationMs: number;
+  talkMs: number;
+  speakers: SpeakerAnalytics[];
+  /** Talk time share by side, 0-1 */
+  share: Record<Affiliation, number>;
+  longestMonologue?: { speaker: ResolvedSpeaker; startMs: number; durationMs: number };
+  /** Speaker switches per minute */
+  interactivity: number;
+  questions: Record<Affiliation, number>;
+  /** Average pause before an internal speaker responds to an external one */
+  patienceMs?: number;
+}
+
+export interface RepAnalytics {
+  speaker: ResolvedSpeaker;
+  calls: number;
+  talkRatio: number;
+  longestMonologueMs: number;
+  interactivity: number;
+  questions: number;
+  patienceMs?: number;
+}
+
+export interface AggregateAnalytics {
+  calls: number;
+  totalDurationMs: number;
+  share: Record<Affiliation, number>;
+  interactivity: number;
+  questions: Record<Affiliation, number>;
+  patienceMs?: number;
+  /** Internal speakers, averaged over the calls they spoke on */
+  reps: RepAnalytics[];
+}
+
+interface Turn {
+  speakerId: string;
+  startMs: number;
+  endMs: number;
+}
+
+/**
+ * Compute analytics for one call. Consecutive monologues by the same speaker are
+ * merged into one turn, so switches and monologues reflect actual turn-taking.
+ */
+export function analyzeCall(
+  transcript: GongTranscript,
+  speakers: Map<string, ResolvedSpeaker>,
+  durationMs?: number
+): CallAnalytics {
+  const sentences = transcript.transcript
+    .flatMap((entry) => entry.sentences.map((s) => ({ ...s, speakerId: entry.speakerId })))
+    .sort((a, b) => a.start - b.start);
+
+  const turns: Turn[] = [];
+  for (const sentence of sentences) {
+    const last = turns[turns.length - 1];
+    if (last?.speakerId === sentence.speakerId) {
+      last.endMs = Math.max(last.endMs, sentence.end);
+    } else {
+      turns.push({ speakerId: sentence.speakerId, startMs: sentence.start, endMs: sentence.end });
+    }
+  }
+
+  const bySpeaker = new Map<string, SpeakerAnalytics>();
+  const statsFor = (speakerId: string) => {
+    let stats = bySpeaker.get(speakerId);
+    if (!stats) {
+      const speaker = speakers.get(speakerId) ?? {
+        speakerId,
+        label: `Speaker ${speakerId}`,
+        affiliation: "Unknown" as const,
+      };
+      stats = { speaker, talkMs: 0, talkRatio: 0, longestMonologueMs: 0, questions: 0, responseGapsMs: [] };
+      bySpeaker.set(speakerId, stats);
+    }
+    return stats;
+  };
+
+  for (const sentence of sentences) {
+    const stats = statsFor(sentence.speakerId);
+    stats.talkMs += Math.max(0, sentence.end - sentence.start);
+    if (sentence.text.trim().endsWith("?")) stats.questions++;
+  }
+
+  let longestMonologue: CallAnalytics["longestMonologue"];
+  for (const [i, turn] of turns.entries()) {
+    const stats = statsFor(turn.speakerId);
+    const turnMs = turn.endMs - turn.startMs;
+    stats.longestMonologueMs = Math.max(stats.longestMonologueMs, turnMs);
+    if (!longestMonologue || turnMs > longestMonologue.durationMs) {
+      longestMonologue = { speaker: stats.speaker, startMs: turn.startMs, durationMs: turnMs };
+    }
+
+    const previous = turns[i - 1];
+    if (previous && stats.speaker.affiliation === "Internal" && statsFor(previous.speakerId).speaker.affiliation === "External") {
+      stats.responseGapsMs.push(Math.max(0, turn.startMs - previous.endMs));
+    }
+  }
+
+  const speakerStats = [...bySpeaker.values()].sort((a, b) => b.talkMs - a.talkMs);
+  const talkMs = speakerStats.reduce((sum, s) => sum + s.talkMs, 0);
+  for (const stats of speakerStats) {
+    stats.talkRatio = talkMs > 0 ? stats.talkMs / talkMs : 0;
+  }
+
+  const span = sentences.length > 0 ? Math.max(...sentences.map((s) => s.end)) - sentences[0].start : 0;
+  const callMs = durationMs && durationMs > 0 ? durationMs : span;
+  const gaps = speakerStats.flatMap((s) => s.responseGapsMs);
+
+  return {
+    callId: transcript.callId,
+    durationMs: callMs,
+    talkMs,
+    speakers: speakerStats,
+    share: sumByAffiliation(speakerStats, (s) => s.talkRatio),
+    longestMonologue,
+    interactivity: callMs > 0 ? Math.max(0, turns.length - 1) / (callMs / 60_000) : 0,
+    questions: sumByAffiliation(speakerStats, (s) => s.questions),
+    patienceMs: average(gaps),
+  };
+}
+
+/**
+ * Roll per-call analytics up across calls. Reps are matched across calls by user ID,
+ * then email, then name, since speaker IDs are only unique within a call.
+ */
+export function aggregateAnalytics(calls: CallAnalytics[]): AggregateAnalytics {
+  const reps = new Map<string, { speaker: ResolvedSpeaker; perCall: { stats: SpeakerAnalytics; call: CallAnalytics }[] }>();
+
+  for (const call of calls) {
+    for (const stats of call.speakers) {
+      if (stats.speaker.affiliation !== "Internal") continue;
+      const key = stats.speaker.userId ?? stats.speaker.email ?? stats.speaker.name ?? stats.speaker.label;
+      const rep = reps.get(key) ?? { speaker: stats.speaker, perCall: [] };
+      rep.perCall.push({ stats, call });
+      reps.set(key, rep);
+    }
+  }
+
+  const totalTalkMs = calls.reduce((sum, call) => sum + call.talkMs, 0);
+  const talkByAffiliation = sumByAffiliation(
+    calls.flatMap((call) => call.speakers),
+    (s) => s.talkMs
+  );
+
+  return {
+    calls: calls.length,
+    totalDurationMs: calls.reduce((sum, call) => sum + call.durationMs, 0),
+    share: {
+      Internal: totalTalkMs > 0 ? talkByAffiliation.Internal / totalTalkMs : 0,
+      External: totalTalkMs > 0 ? talkByAffiliation.External / totalTalkMs : 0,
+      Unknown: totalTalkMs > 0 ? talkByAffiliation.Unknown / totalTalkMs : 0,
+    },
+    interactivity: average(calls.map((call) => call.interactivity)) ?? 0,
+    questions: sumByAffiliation(
+      calls.flatMap((call) => call.speakers),
+      (s) => s.questions
+    ),
+    patienceMs: average(calls.flatMap((call) => call.speakers.flatMap((s) => s.responseGapsMs))),
+    reps: [...reps.values()]
+      .map(({ speaker, perCall }) => ({
+        speaker,
+        calls: perCall.length,
+        talkRatio: average(perCall.map(({ stats }) => stats.talkRatio)) ?? 0,
+        longestMonologueMs: Math.max(...perCall.map(({ stats }) => stats.longestMonologueMs)),
+        interactivity: average(perCall.map(({ call }) => call.interactivity)) ?? 0,
+        questions: perCall.reduce((sum, { stats }) => sum + stats.questions, 0),
+        patienceMs: average(perCall.flatMap(({ stats }) => stats.responseGapsMs)),
+      }))
+      .sort((a, b) => b.calls - a.calls || a.speaker.label.localeCompare(b.speaker.label)),
+  };
+}
+
+function sumByAffiliation(stats: SpeakerAnalytics[], value: (s: SpeakerAnalytics) => number): Record<Affiliation, number> {
+  const totals: Record<Affiliation, number> = { Internal: 0, External: 0, Unknown: 0 };
+  for (const s of stats) totals[s.speaker.affiliation] += value(s);
+  return totals;
+}
+
+function average(values: number[]): number | undefined {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+}
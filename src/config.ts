@@ -0,0 +1,82 @@
+/**
+ * Environment Configuration
+ * Reads GongClient credentials and settings shared by the stdio and Vercel entry points.
+ *
+ * Credentials (one of):
+ *   GONG_ACCESS_KEY + GONG_ACCESS_KEY_SECRET - Basic auth access key pair
+ *   GONG_OAUTH_CLIENT_ID + GONG_OAUTH_CLIENT_SECRET + GONG_OAUTH_REFRESH_TOKEN - OAuth app
+ *     (optionally GONG_OAUTH_ACCESS_TOKEN to skip the first refresh). Gong rotates refresh
+ *     tokens, so this only suits a single long-running process such as the stdio server; the
+ *     HTTP handler rejects it. Multi-user deployments should build OAuthAuth with
+ *     loadTokens/saveTokens backed by a per-user token store instead.
+ *
+ * Optional settings:
+ *   GONG_API_BASE_URL - API base URL including /v2 (default https://api.gong.io/v2)
+ *   GONG_REQUEST_TIMEOUT_MS - Per-attempt request timeout in ms (default: none)
+ *   GONG_MAX_RETRIES - Retry budget for rate-limited/transient failures (default 4)
+ *   GONG_RESPONSE_VALIDATION - "strict" to fail on unexpected response shapes, "lenient" to log them (default)
+ *   GONG_DEFAULT_HEADERS - JSON object of extra headers sent with every request, e.g.
+ *     {"X-Proxy-Token":"..."} for an API gateway (Authorization cannot be overridden)
+ */
+
+import { BasicAuth, OAuthAuth, type GongAuthStrategy } from "./gong-auth.js";
+import type { GongClientOptions } from "./gong-client.js";
+
+/**
+ * Pick an auth strategy from the environment; OAuth takes precedence over access keys.
+ * Returns undefined when no credentials are configured.
+ */
+export function gongAuthFromEnv(env: NodeJS.ProcessEnv = process.env): GongAuthStrategy | undefined {
+  const { GONG_OAUTH_CLIENT_ID, GONG_OAUTH_CLIENT_SECRET, GONG_OAUTH_REFRESH_TOKEN } = env;
+  if (GONG_OAUTH_CLIENT_ID && GONG_OAUTH_CLIENT_SECRET && GONG_OAUTH_REFRESH_TOKEN) {
+    return new OAuthAuth({
+      clientId: GONG_OAUTH_CLIENT_ID,
+      clientSecret: GONG_OAUTH_CLIENT_SECRET,
+      tokens: {
+        refreshToken: GONG_OAUTH_REFRESH_TOKEN,
+        accessToken: env.GONG_OAUTH_ACCESS_TOKEN || undefined,
+      },
+    });
+  }
+
+  if (env.GONG_ACCESS_KEY && env.GONG_ACCESS_KEY_SECRET) {
+    return new BasicAuth(env.GONG_ACCESS_KEY, env.GONG_ACCESS_KEY_SECRET);
+  }
+
+  return undefined;
+}
+
+export function gongConfigFromEnv(env: NodeJS.ProcessEnv = process.env): GongClientOptions {
+  return {
+    baseUrl: env.GONG_API_BASE_URL || undefined,
+    timeoutMs: parseInteger(env.GONG_REQUEST_TIMEOUT_MS, 1),
+    validation: env.GONG_RESPONSE_VALIDATION === "strict" ? "strict" : "lenient",
+    defaultHeaders: parseHeaders(env.GONG_DEFAULT_HEADERS),
+    retry: {
+      maxRetries: parseInteger(env.GONG_MAX_RETRIES, 0),
+    },
+  };
+}
+
+function parseInteger(value: string | undefined, min: number): number | undefined {
+  if (!value) return undefined;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < min ? undefined : parsed;
+}
+
+/**
+ * Parse a JSON object of header names to string values; anything else is ignored
+ */
+function parseHeaders(value: string | undefined): Record<string, string> | undefined {
+  if (!value) return undefined;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) return undefined;
+
+  return Object.fromEntries(Object.entries(parsed).filter((entry): entry is [string, string] => typeof entry[1] === "string"));
+}
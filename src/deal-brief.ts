@@ -0,0 +1,142 @@
+/**
+ * Deal Engagement
+ * Summarizes the calls linked to a deal: who on the buyer side has been engaged
+ * (multithreading), which trackers fired, and when the deal was last touched -
+ * and flags open deals whose engagement puts them at risk.
+ */
+
+import type { GongCall } from "./gong-client.js";
+
+export interface BuyerContact {
+  name?: string;
+  email?: string;
+  title?: string;
+  calls: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface TrackerSummary {
+  id: string;
+  name: string;
+  occurrences: number;
+  calls: number;
+}
+
+export interface DealEngagement {
+  /** Linked calls, oldest first */
+  calls: GongCall[];
+  latestCall?: GongCall;
+  buyerContacts: BuyerContact[];
+  trackers: TrackerSummary[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function summarizeDealEngagement(calls: GongCall[]): DealEngagement {
+  const sorted = [...calls].sort((a, b) => a.started.localeCompare(b.started));
+  const contacts = new Map<string, BuyerContact>();
+  const trackers = new Map<string, TrackerSummary>();
+
+  for (const call of sorted) {
+    for (const party of call.parties ?? []) {
+      if (party.affiliation !== "External") continue;
+      // The same person can join from different devices; match on email, then name
+      const key = party.emailAddress?.toLowerCase() || party.name?.toLowerCase();
+      if (!key) continue;
+
+      const contact = contacts.get(key);
+      if (contact) {
+        // Calls are sorted, so the current call is always the latest sighting
+        if (contact.lastSeen !== call.started) contact.calls++;
+        contact.lastSeen = call.started;
+        contact.title ??= party.title;
+      } else {
+        contacts.set(key, {
+          name: party.name,
+          email: party.emailAddress,
+          title: party.title,
+          calls: 1,
+          firstSeen: call.started,
+          lastSeen: call.started,
+        });
+      }
+    }
+
+    for (const tracker of call.content?.trackers ?? []) {
+      if (tracker.count === 0) continue;
+      const summary = trackers.get(tracker.id) ?? { id: tracker.id, name: tracker.name, occurrences: 0, calls: 0 };
+      summary.occurrences += tracker.count;
+      summary.calls++;
+      trackers.set(tracker.id, summary);
+    }
+  }
+
+  return {
+    calls: sorted,
+    latestCall: sorted[sorted.length - 1],
+    buyerContacts: [...contacts.values()].sort((a, b) => b.calls - a.calls || b.lastSeen.localeCompare(a.lastSeen)),
+    trackers: [...trackers.values()].sort((a, b) => b.occurrences - a.occurrences),
+  };
+}
+
+/**
+ * Whole days from one ISO timestamp to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.floor((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+export type DealRiskFlag = "no_calls" | "stale" | "single_threaded" | "closing_without_recent_call";
+
+export interface DealRiskOptions {
+  /** Days without a call after which a deal counts as stale */
+  inactiveDays: number;
+  /** Close dates within this many days (or already past) count as near */
+  closeWindowDays: number;
+  /** A deal closing soon needs a call within this many days */
+  recentCallDays: number;
+  now: string;
+}
+
+export interface DealRisk {
+  flag: DealRiskFlag;
+  detail: string;
+}
+
+/**
+ * Risk flags for an open deal, given the engagement on its linked calls
+ */
+export function assessDealRisk(
+  deal: { closeDate?: string },
+  engagement: DealEngagement,
+  options: DealRiskOptions
+): DealRisk[] {
+  const risks: DealRisk[] = [];
+  const lastCallAt = engagement.latestCall?.started;
+  const daysSinceCall = lastCallAt ? daysBetween(lastCallAt, options.now) : undefined;
+
+  if (daysSinceCall === undefined) {
+    risks.push({ flag: "no_calls", detail: "No calls linked to this deal" });
+  } else if (daysSinceCall > options.inactiveDays) {
+    risks.push({ flag: "stale", detail: `No call in ${daysSinceCall} days` });
+  }
+
+  if (engagement.buyerContacts.length === 1) {
+    const [contact] = engagement.buyerContacts;
+    risks.push({ flag: "single_threaded", detail: `Only one buyer contact on calls: ${contact.name ?? contact.email}` });
+  }
+
+  if (deal.closeDate) {
+    const daysToClose = daysBetween(options.now, deal.closeDate);
+    if (daysToClose <= options.closeWindowDays && (daysSinceCall === undefined || daysSinceCall > options.recentCallDays)) {
+      const when = daysToClose < 0 ? `Close date ${-daysToClose} days overdue` : `Closes in ${daysToClose} days`;
+      risks.push({
+        flag: "closing_without_recent_call",
+        detail: `${when} with no call in the last ${options.recentCallDays} days`,
+      });
+    }
+  }
+
+  return risks;
+}
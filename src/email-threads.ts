@@ -0,0 +1,131 @@
+/**
+ * Email Threads
+ * Plain-text email bodies with quoted replies trimmed, participant filters, and thread
+ * reconstruction. Gong doesn't return thread IDs, so threads are rebuilt from the
+ * normalized subject plus overlapping participants.
+ */
+
+import { emailDomain } from "./account-timeline.js";
+import type { GongEmail } from "./gong-client.js";
+
+export interface EmailFilter {
+  /** Sender address or name fragment */
+  from?: string;
+  /** Recipient (to or cc) address or name fragment */
+  to?: string;
+  /** Any participant on this domain */
+  domain?: string;
+  direction?: "Inbound" | "Outbound";
+}
+
+export interface EmailThread {
+  subject: string;
+  participants: string[];
+  /** Messages oldest first */
+  emails: GongEmail[];
+}
+
+// Lines that start the quoted part of a reply in the common mail clients
+const QUOTE_HEADERS = [
+  /^On .+ wrote:$/i,
+  /^-{2,}\s*Original Message\s*-{2,}/i,
+  /^_{5,}$/,
+  /^Le .+ a écrit\s*:$/i,
+  /^Am .+ schrieb .+:$/i,
+];
+
+/**
+ * Convert an email body (HTML or text) to plain text. Unless keepQuoted is set,
+ * everything from the first quoted-reply header or ">"-quoted block onwards is dropped.
+ */
+export function normalizeEmailBody(body: string | undefined, options: { keepQuoted?: boolean } = {}): string {
+  if (!body) return "";
+  let text = /<\/?[a-z][\s\S]*>/i.test(body) ? htmlToText(body, options.keepQuoted) : body;
+  text = text.replace(/\r\n?/g, "\n");
+
+  if (!options.keepQuoted) {
+    const lines = text.split("\n");
+    const cut = lines.findIndex((line, i) => i > 0 && isQuoteStart(line.trim(), lines[i + 1]?.trim() ?? ""));
+    if (cut > 0) text = lines.slice(0, cut).join("\n");
+  }
+
+  return text
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Subject with reply/forward prefixes removed, for matching messages in a thread
+ */
+export function threadSubject(subject: string | undefined): string {
+  return (subject ?? "").replace(/^\s*((re|fw|fwd|aw|wg|sv)\s*(\[\d+\])?\s*:\s*)+/i, "").trim();
+}
+
+export function emailParticipants(email: GongEmail): string[] {
+  return [email.fromEmailAddress, ...email.toEmailAddresses, ...(email.ccEmailAddresses ?? [])]
+    .filter(Boolean)
+    .map((address) => address.toLowerCase());
+}
+
+export function matchesEmailFilter(email: GongEmail, filter: EmailFilter): boolean {
+  const includes = (value: string, needle: string) => value.toLowerCase().includes(needle.toLowerCase());
+
+  if (filter.direction && email.direction !== filter.direction) return false;
+  if (filter.from && !includes(email.fromEmailAddress, filter.from)) return false;
+  if (filter.to && ![...email.toEmailAddresses, ...(email.ccEmailAddresses ?? [])].some((a) => includes(a, filter.to!))) {
+    return false;
+  }
+  if (filter.domain) {
+    const domain = filter.domain.replace(/^@/, "").toLowerCase();
+    if (!emailParticipants(email).some((address) => emailDomain(address) === domain)) return false;
+  }
+  return true;
+}
+
+/**
+ * Group emails into threads: same normalized subject and at least one shared participant
+ */
+export function groupThreads(emails: GongEmail[]): EmailThread[] {
+  const threads: { key: string; subject: string; people: Set<string>; emails: GongEmail[] }[] = [];
+
+  for (const email of [...emails].sort((a, b) => a.sentTime.localeCompare(b.sentTime))) {
+    const key = threadSubject(email.subject).toLowerCase();
+    const people = emailParticipants(email);
+    const thread = threads.find((t) => t.key === key && people.some((p) => t.people.has(p)));
+
+    if (thread) {
+      thread.emails.push(email);
+      for (const p of people) thread.people.add(p);
+    } else {
+      threads.push({ key, subject: threadSubject(email.subject), people: new Set(people), emails: [email] });
+    }
+  }
+
+  return threads.map(({ subject, people, emails: messages }) => ({ subject, participants: [...people], emails: messages }));
+}
+
+function isQuoteStart(line: string, nextLine: string): boolean {
+  if (line.startsWith(">")) return true;
+  if (QUOTE_HEADERS.some((pattern) => pattern.test(line))) return true;
+  // Outlook: "From: ..." immediately followed by "Sent: ..." or "Date: ..."
+  return /^From:\s/i.test(line) && /^(Sent|Date):\s/i.test(nextLine);
+}
+
+function htmlToText(html: string, keepQuoted = false): string {
+  return html
+    .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, "")
+    // Gmail and Apple Mail wrap the quoted reply in a blockquote
+    .replace(/<blockquote[\s\S]*<\/blockquote>/gi, (quote) => (keepQuoted ? quote : ""))
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+}
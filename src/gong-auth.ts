@@ -0,0 +1,158 @@
+/**
+ * Gong Authentication Strategies
+ * GongClient asks its strategy for an Authorization header before each request, so
+ * credentials can be static (Basic access keys) or refreshed on the fly (OAuth apps).
+ *
+ * OAuth docs: https://help.gong.io/docs/create-an-app-for-gong
+ */
+
+import { createGongApiError } from "./gong-errors.js";
+
+const DEFAULT_GONG_OAUTH_TOKEN_URL = "https://app.gong.io/oauth2/generate-customer-token";
+
+// Refresh this long before the reported expiry to avoid racing it
+const TOKEN_EXPIRY_SKEW_MS = 60_000;
+
+export interface GongAuthStrategy {
+  /** Authorization header value for the next request */
+  getAuthorizationHeader(): Promise<string>;
+  /** Customer-specific API base URL (including /v2), if the strategy knows one */
+  getBaseUrl?(): string | undefined;
+  /**
+   * Called after a 401. Resolve true if credentials were refreshed and the request
+   * should be sent again; false to surface the 401 as-is.
+   */
+  handleUnauthorized?(): Promise<boolean>;
+}
+
+/**
+ * HTTP Basic auth with an access key pair (Gong's "API" settings page)
+ */
+export class BasicAuth implements GongAuthStrategy {
+  private header: string;
+
+  constructor(accessKey: string, accessKeySecret: string) {
+    const credentials = Buffer.from(`${accessKey}:${accessKeySecret}`).toString("base64");
+    this.header = `Basic ${credentials}`;
+  }
+
+  async getAuthorizationHeader(): Promise<string> {
+    return this.header;
+  }
+}
+
+export interface GongOAuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  /** Epoch ms when the access token expires, if known */
+  expiresAt?: number;
+  /** api_base_url_for_customer from the token response, e.g. https://us-12345.api.gong.io */
+  apiBaseUrl?: string;
+}
+
+export interface GongOAuthOptions {
+  clientId: string;
+  clientSecret: string;
+  /** Initial tokens; at minimum a refresh token. Omit to rely on loadTokens. */
+  tokens?: Partial<GongOAuthTokens> & { refreshToken: string };
+  /** Load persisted tokens (e.g. per user from a KV store) before the first request */
+  loadTokens?: () => Promise<GongOAuthTokens | undefined>;
+  /** Persist tokens after every refresh - Gong rotates the refresh token */
+  saveTokens?: (tokens: GongOAuthTokens) => Promise<void> | void;
+  tokenUrl?: string;
+  fetch?: typeof fetch;
+}
+
+/**
+ * OAuth app bearer tokens with automatic refresh (on expiry and on 401)
+ */
+export class OAuthAuth implements GongAuthStrategy {
+  private tokens?: Partial<GongOAuthTokens> & { refreshToken: string };
+  private loaded = false;
+  private refreshing?: Promise<void>;
+  private fetchImpl: typeof fetch;
+
+  constructor(private options: GongOAuthOptions) {
+    this.tokens = options.tokens;
+    this.fetchImpl = options.fetch ?? globalThis.fetch;
+  }
+
+  async getAuthorizationHeader(): Promise<string> {
+    await this.ensureLoaded();
+
+    const expiresAt = this.tokens?.expiresAt;
+    const expired = expiresAt !== undefined && expiresAt - TOKEN_EXPIRY_SKEW_MS <= Date.now();
+    if (!this.tokens?.accessToken || expired) {
+      await this.refresh();
+    }
+
+    return `Bearer ${this.tokens!.accessToken}`;
+  }
+
+  getBaseUrl(): string | undefined {
+    const apiBaseUrl = this.tokens?.apiBaseUrl;
+    return apiBaseUrl ? `${apiBaseUrl.replace(/\/+$/, "")}/v2` : undefined;
+  }
+
+  async handleUnauthorized(): Promise<boolean> {
+    await this.refresh();
+    return true;
+  }
+
+  private async ensureLoaded(): Promise<void> {
+    if (this.loaded) return;
+
+    const stored = await this.options.loadTokens?.();
+    if (stored) this.tokens = stored;
+    this.loaded = true;
+
+    if (!this.tokens?.refreshToken) {
+      throw new Error("Gong OAuth requires a refresh token (pass tokens.refreshToken or loadTokens)");
+    }
+  }
+
+  /**
+   * Exchange the refresh token for a new access token; concurrent callers share one refresh
+   */
+  private refresh(): Promise<void> {
+    this.refreshing ??= this.doRefresh().finally(() => {
+      this.refreshing = undefined;
+    });
+    return this.refreshing;
+  }
+
+  private async doRefresh(): Promise<void> {
+    const tokenUrl = this.options.tokenUrl ?? DEFAULT_GONG_OAUTH_TOKEN_URL;
+    const query = new URLSearchParams({ grant_type: "refresh_token", refresh_token: this.tokens!.refreshToken });
+    const credentials = Buffer.from(`${this.options.clientId}:${this.options.clientSecret}`).toString("base64");
+
+    const response = await this.fetchImpl(`${tokenUrl}?${query.toString()}`, {
+      method: "POST",
+      headers: { "Authorization": `Basic ${credentials}` },
+    });
+
+    if (!response.ok) {
+      throw createGongApiError({
+        status: response.status,
+        endpoint: "/oauth2/generate-customer-token",
+        body: await response.text(),
+      });
+    }
+
+    const data = (await response.json()) as {
+      access_token: string;
+      refresh_token?: string;
+      expires_in?: number;
+      api_base_url_for_customer?: string;
+    };
+
+    this.tokens = {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token ?? this.tokens!.refreshToken,
+      expiresAt: data.expires_in !== undefined ? Date.now() + data.expires_in * 1000 : undefined,
+      apiBaseUrl: data.api_base_url_for_customer ?? this.tokens?.apiBaseUrl,
+    };
+
+    await this.options.saveTokens?.(this.tokens as GongOAuthTokens);
+  }
+}
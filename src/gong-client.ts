@@ -6,34 +6,113 @@
  * Rate Limits: ~1000 requests/hour per API key
  */
 
-const GONG_API_BASE = "https://api.gong.io/v2";
+import type { z } from "zod";
+import { BasicAuth, type GongAuthStrategy } from "./gong-auth.js";
+import { createGongApiError, GongNotFoundError, GongResponseValidationError } from "./gong-errors.js";
+import {
+  answeredScorecardsResponseSchema,
+  callsExtensiveResponseSchema,
+  crmObjectCallsResponseSchema,
+  dayByDayStatsResponseSchema,
+  interactionStatsResponseSchema,
+  libraryFoldersResponseSchema,
+  listCallsResponseSchema,
+  listDealsResponseSchema,
+  listEmailsResponseSchema,
+  listUsersResponseSchema,
+  scorecardsResponseSchema,
+  transcriptsResponseSchema,
+  userStatsResponseSchema,
+  usersExtensiveResponseSchema,
+} from "./gong-schemas.js";
 
-export interface GongConfig {
-  accessKey: string;
-  accessKeySecret: string;
+const DEFAULT_GONG_API_BASE = "https://api.gong.io/v2";
+
+// Gong caps ID-list filters per request; larger lists are split into batches
+const ID_BATCH_SIZE = 100;
+// Parallel batch requests per call - kept low to stay friendly with the rate limit
+const BATCH_CONCURRENCY = 3;
+
+// Statuses worth retrying: rate limiting and transient server/gateway failures
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+export interface GongClientOptions {
+  /** API base URL including the version path, e.g. https://us-12345.api.gong.io/v2 */
+  baseUrl?: string;
+  /** fetch implementation to use instead of the global one (tests, proxies, instrumentation) */
+  fetch?: typeof fetch;
+  /** Extra headers sent with every request; cannot override Authorization */
+  defaultHeaders?: Record<string, string>;
+  /** Per-attempt request timeout in ms; a timed-out attempt is retried like a network error */
+  timeoutMs?: number;
+  retry?: GongRetryOptions;
+  /**
+   * Response validation mode (default "lenient"):
+   *   strict  - throw GongResponseValidationError on any schema mismatch
+   *   lenient - report the mismatch via onValidationError and return the data as-is; missing
+   *             lists come back empty
+   */
+  validation?: "strict" | "lenient";
+  /** Called in lenient mode when a response fails validation (default: log to stderr) */
+  onValidationError?: (error: GongResponseValidationError) => void;
+}
+
+/**
+ * Either an access key pair (Basic auth, the original setup) or any GongAuthStrategy,
+ * such as OAuthAuth for per-user OAuth app tokens
+ */
+export type GongConfig = GongClientOptions &
+  ({ accessKey: string; accessKeySecret: string; auth?: never } | { auth: GongAuthStrategy });
+
+export interface GongRetryOptions {
+  /** Maximum retries per request after the first attempt (default 4) */
+  maxRetries?: number;
+  /** Base delay for exponential backoff in ms (default 500) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay in ms (default 30000) */
+  maxDelayMs?: number;
+  /** Longest Retry-After we are willing to wait in ms; longer waits fail immediately (default 60000) */
+  maxRetryAfterMs?: number;
+  /** Called before each retry sleep, e.g. for logging */
+  onRetry?: (info: GongRetryInfo) => void;
+}
+
+export interface GongRetryInfo {
+  endpoint: string;
+  /** 1-based number of the retry about to happen */
+  attempt: number;
+  delayMs: number;
+  status?: number;
+  error?: unknown;
+}
+
+export interface GongRequestStats {
+  requests: number;
+  retries: number;
 }
 
 export interface GongCall {
   id: string;
-  title: string;
-  scheduled: string;
+  title?: string;
+  scheduled?: string;
   started: string;
   duration: number;
-  primaryUserId: string;
-  direction: string;
-  scope: string;
-  media: string;
-  language: string;
+  primaryUserId?: string;
+  direction?: string;
+  scope?: string;
+  media?: string;
+  language?: string;
   url: string;
-  parties: GongParty[];
+  /** Only returned when requested via contentSelector.exposedFields.parties */
+  parties?: GongParty[];
   content?: GongCallContent;
   context?: GongCallContext[];
 }
 
 export interface GongParty {
   id: string;
-  emailAddress: string;
-  name: string;
+  emailAddress?: string;
+  name?: string;
   title?: string;
   userId?: string;
   speakerId?: string;
@@ -43,18 +122,18 @@ export interface GongParty {
 
 export interface GongPartyContext {
   system: string;
-  objects: { objectType: string; objectId: string; fields: { name: string; value: string }[] }[];
+  objects: { objectType: string; objectId: string; fields: { name: string; value?: unknown }[] }[];
 }
 
 export interface GongCallContent {
-  trackers?: { id: string; name: string; count: number; occurrences: { startTime: number }[] }[];
+  trackers?: { id: string; name: string; count: number; occurrences?: { startTime: number; speakerId?: string }[] }[];
   topics?: { name: string; duration: number }[];
   pointsOfInterest?: { type: string; startTime: number }[];
 }
 
 export interface GongCallContext {
   system: string;
-  objects: { objectType: string; objectId: string; fields: { name: string; value: string }[] }[];
+  objects: { objectType: string; objectId: string; fields: { name: string; value?: unknown }[] }[];
 }
 
 export interface GongTranscript {
@@ -70,18 +149,18 @@ export interface GongTranscriptEntry {
 
 export interface GongUser {
   id: string;
-  emailAddress: string;
-  firstName: string;
-  lastName: string;
+  emailAddress?: string;
+  firstName?: string;
+  lastName?: string;
   title?: string;
   phoneNumber?: string;
   extension?: string;
   personalMeetingUrls?: string[];
-  settings: { webConferencesRecorded: boolean; preventWebConferenceRecording: boolean };
+  settings?: { webConferencesRecorded?: boolean; preventWebConferenceRecording?: boolean };
   managerId?: string;
   meetingConsentPageUrl?: string;
   active: boolean;
-  created: string;
+  created?: string;
 }
 
 export interface GongDeal {
@@ -89,6 +168,7 @@ export interface GongDeal {
   url?: string;
   title?: string;
   account?: { id: string; name: string };
+  ownerId?: string;
   closeDate?: string;
   amount?: number;
   stage?: string;
@@ -106,43 +186,279 @@ export interface GongEmail {
   body?: string;
 }
 
+/**
+ * Counters from /stats/activity/aggregate. Gong omits metrics that don't apply to
+ * the workspace, so every field is optional.
+ */
+export interface GongActivityStats {
+  callsAsHost?: number;
+  callsAttended?: number;
+  callsGaveFeedback?: number;
+  callsReceivedFeedback?: number;
+  callsRequestedFeedback?: number;
+  callsScorecardsFilled?: number;
+  callsScorecardsReceived?: number;
+  callsSharedInternally?: number;
+  callsSharedExternally?: number;
+  callsCommentsGiven?: number;
+  callsCommentsReceived?: number;
+  ownCallsListenedTo?: number;
+  othersCallsListenedTo?: number;
+}
+
+export interface GongUserActivityStats {
+  userId: string;
+  userEmailAddress?: string;
+  userAggregateActivityStats: GongActivityStats;
+}
+
+/**
+ * One day of activity from /stats/activity/day-by-day. Activities are lists of the
+ * call IDs involved (e.g. the calls hosted that day); counts are their lengths.
+ */
+export interface GongDailyActivityStats {
+  fromDate: string;
+  toDate?: string;
+  callsAsHost?: string[];
+  callsAttended?: string[];
+  callsGaveFeedback?: string[];
+  callsReceivedFeedback?: string[];
+  callsRequestedFeedback?: string[];
+  callsScorecardsFilled?: string[];
+  callsScorecardsReceived?: string[];
+  callsSharedInternally?: string[];
+  callsSharedExternally?: string[];
+  callsCommentsGiven?: string[];
+  callsCommentsReceived?: string[];
+  ownCallsListenedTo?: string[];
+  othersCallsListenedTo?: string[];
+  [activity: string]: unknown;
+}
+
+export interface GongUserDailyActivity {
+  userId: string;
+  userEmailAddress?: string;
+  userDailyActivityStats: GongDailyActivityStats[];
+}
+
+/**
+ * Per-user entry from /stats/interaction; each stat is a named value such as
+ * "Talk Ratio" or "Longest Monologue"
+ */
+export interface GongUserInteractionStats {
+  userId: string;
+  userEmailAddress?: string;
+  personInteractionStats: { name: string; value?: number }[];
+}
+
+export interface GongScorecard {
+  scorecardId: string;
+  scorecardName: string;
+  workspaceId?: string;
+  enabled?: boolean;
+  created?: string;
+  updated?: string;
+  questions: GongScorecardQuestion[];
+}
+
+export interface GongScorecardQuestion {
+  questionId: string;
+  questionText: string;
+  /** The scorecard's overall rating question */
+  isOverall?: boolean;
+  minRange?: number;
+  maxRange?: number;
+}
+
+export interface GongAnsweredScorecard {
+  answeredScorecardId: string;
+  scorecardId: string;
+  scorecardName?: string;
+  callId: string;
+  callStartTime?: string;
+  reviewedUserId: string;
+  reviewerUserId: string;
+  reviewTime: string;
+  visibilityType?: string;
+  answers: GongScorecardAnswer[];
+}
+
+export interface GongScorecardAnswer {
+  questionId: string;
+  isOverall?: boolean;
+  score?: number;
+  answerText?: string;
+  notApplicable?: boolean;
+}
+
 export interface PaginatedResponse<T> {
   records: T[];
   cursor?: string;
   totalRecords?: number;
 }
 
+export interface SearchCallsParams {
+  searchTerm?: string;
+  fromDateTime?: string;
+  toDateTime?: string;
+  workspaceId?: string;
+  primaryUserIds?: string[];
+  callIds?: string[];
+}
+
+export interface AnsweredScorecardsParams {
+  reviewFromDate?: string;
+  reviewToDate?: string;
+  callFromDate?: string;
+  callToDate?: string;
+  scorecardIds?: string[];
+  reviewedUserIds?: string[];
+}
+
+export interface IterateOptions {
+  /** Stop after fetching this many pages */
+  maxPages?: number;
+  /** Stop after yielding this many records */
+  maxRecords?: number;
+  /** Abort iteration between pages */
+  signal?: AbortSignal;
+}
+
 export class GongClient {
-  private authHeader: string;
+  private auth: GongAuthStrategy;
+  private baseUrl?: string;
+  private fetchImpl: typeof fetch;
+  private defaultHeaders: Record<string, string>;
+  private timeoutMs?: number;
+  private retry: Required<Omit<GongRetryOptions, "onRetry">> & Pick<GongRetryOptions, "onRetry">;
+  private stats: GongRequestStats = { requests: 0, retries: 0 };
+  private validation: "strict" | "lenient";
+  private onValidationError: (error: GongResponseValidationError) => void;
 
   constructor(config: GongConfig) {
-    // Gong uses HTTP Basic Auth with accessKey:accessKeySecret
-    const credentials = Buffer.from(`${config.accessKey}:${config.accessKeySecret}`).toString("base64");
-    this.authHeader = `Basic ${credentials}`;
+    // Access keys use HTTP Basic Auth with accessKey:accessKeySecret
+    this.auth = config.auth ?? new BasicAuth(config.accessKey, config.accessKeySecret);
+
+    this.baseUrl = config.baseUrl?.replace(/\/+$/, "");
+    this.fetchImpl = config.fetch ?? globalThis.fetch;
+    this.defaultHeaders = config.defaultHeaders ?? {};
+    this.timeoutMs = config.timeoutMs;
+
+    this.retry = {
+      maxRetries: config.retry?.maxRetries ?? 4,
+      baseDelayMs: config.retry?.baseDelayMs ?? 500,
+      maxDelayMs: config.retry?.maxDelayMs ?? 30_000,
+      maxRetryAfterMs: config.retry?.maxRetryAfterMs ?? 60_000,
+      onRetry: config.retry?.onRetry,
+    };
+
+    this.validation = config.validation ?? "lenient";
+    this.onValidationError = config.onValidationError ?? ((error) => console.error(error.message));
+  }
+
+  /**
+   * Running totals of HTTP requests sent and retries performed by this client
+   */
+  getRequestStats(): GongRequestStats {
+    return { ...this.stats };
   }
 
-  private async request<T>(
+  private async request<S extends z.ZodTypeAny>(
     endpoint: string,
-    method: "GET" | "POST" = "GET",
-    body?: Record<string, unknown>
-  ): Promise<T> {
-    const url = `${GONG_API_BASE}${endpoint}`;
-
-    const response = await fetch(url, {
-      method,
-      headers: {
-        "Authorization": this.authHeader,
-        "Content-Type": "application/json",
-      },
-      body: body ? JSON.stringify(body) : undefined,
-    });
+    method: "GET" | "POST",
+    body: Record<string, unknown> | undefined,
+    schema: S
+  ): Promise<z.infer<S>> {
+    // Explicit baseUrl wins (mock servers, proxies), then the OAuth customer URL, then the public API
+    const baseUrl = () => this.baseUrl ?? this.auth.getBaseUrl?.() ?? DEFAULT_GONG_API_BASE;
+    let reauthenticated = false;
+
+    for (let attempt = 0; ; attempt++) {
+      this.stats.requests++;
+      const canRetry = attempt < this.retry.maxRetries;
+
+      // Resolve credentials before the URL: an OAuth refresh is what reports the customer base URL
+      const authorization = await this.auth.getAuthorizationHeader();
+
+      let response: Response;
+      try {
+        response = await this.fetchImpl(`${baseUrl()}${endpoint}`, {
+          method,
+          headers: {
+            "Content-Type": "application/json",
+            ...this.defaultHeaders,
+            "Authorization": authorization,
+          },
+          body: body ? JSON.stringify(body) : undefined,
+          signal: this.timeoutMs ? AbortSignal.timeout(this.timeoutMs) : undefined,
+        });
+      } catch (error) {
+        // Network-level failure (DNS, connection reset, timeout, etc.) - always transient
+        if (!canRetry) throw error;
+        await this.waitBeforeRetry({ endpoint, attempt: attempt + 1, delayMs: this.backoffDelay(attempt), error });
+        continue;
+      }
+
+      if (response.ok) {
+        return this.validate(endpoint, await response.json(), schema);
+      }
+
+      // Expired bearer token: refresh once and resend without spending the retry budget
+      if (response.status === 401 && !reauthenticated && this.auth.handleUnauthorized) {
+        reauthenticated = true;
+        if (await this.auth.handleUnauthorized()) {
+          attempt--;
+          continue;
+        }
+      }
 
-    if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Gong API error (${response.status}): ${errorText}`);
+
+      const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+
+      if (canRetry && RETRYABLE_STATUSES.has(response.status)) {
+        if (retryAfterMs === undefined || retryAfterMs <= this.retry.maxRetryAfterMs) {
+          const delayMs = retryAfterMs ?? this.backoffDelay(attempt);
+          await this.waitBeforeRetry({ endpoint, attempt: attempt + 1, delayMs, status: response.status });
+          continue;
+        }
+      }
+
+      throw createGongApiError({ status: response.status, endpoint, body: errorText, retryAfterMs });
     }
+  }
 
-    return response.json() as Promise<T>;
+  /**
+   * Check a response body against its schema and return the parsed result. On a mismatch,
+   * strict mode throws; lenient mode reports it and passes the raw body through as-is, so
+   * callers must not assume the schema's required fields are present.
+   */
+  private validate<S extends z.ZodTypeAny>(endpoint: string, data: unknown, schema: S): z.infer<S> {
+    const result = schema.safeParse(data);
+    if (result.success) return result.data;
+
+    const error = new GongResponseValidationError(
+      endpoint,
+      result.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }))
+    );
+    if (this.validation === "strict") throw error;
+    this.onValidationError(error);
+    // Methods read top-level fields off the body, so anything that isn't an object becomes an empty one
+    return typeof data === "object" && data !== null ? data : {};
+  }
+
+  /**
+   * Exponential backoff with full jitter: random delay in [0, min(max, base * 2^attempt)]
+   */
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private async waitBeforeRetry(info: GongRetryInfo): Promise<void> {
+    this.stats.retries++;
+    this.retry.onRetry?.(info);
+    await sleep(info.delayMs);
   }
 
   // ============ CALLS ============
@@ -165,73 +481,161 @@ export class GongClient {
 
     const endpoint = `/calls${queryParams.toString() ? `?${queryParams.toString()}` : ""}`;
 
-    const response = await this.request<{
-      requestId: string;
-      records: { currentPageSize: number; currentPageNumber: number; cursor?: string; totalRecords: number };
-      calls: GongCall[];
-    }>(endpoint, "GET");
+    const response = await this.request(endpoint, "GET", undefined, listCallsResponseSchema);
 
     return {
-      records: response.calls,
-      cursor: response.records.cursor,
-      totalRecords: response.records.totalRecords,
+      records: response.calls || [],
+      cursor: response.records?.cursor,
+      totalRecords: response.records?.totalRecords,
     };
   }
 
   /**
-   * Get detailed call data including CRM context
+   * Iterate over all calls matching the filters, following cursors across pages
    */
-  async getCallsExtensive(callIds: string[]): Promise<GongCall[]> {
-    const response = await this.request<{
-      requestId: string;
-      records: { currentPageSize: number };
-      calls: GongCall[];
-    }>("/calls/extensive", "POST", {
-      filter: { callIds },
-      contentSelector: {
-        context: "Extended",
-        exposedFields: {
-          parties: true,
-          content: { trackers: true, topics: true, pointsOfInterest: true },
-          collaboration: { publicComments: true },
-        },
-      },
+  iterateCalls(
+    params: { fromDateTime?: string; toDateTime?: string; workspaceId?: string } = {},
+    options: IterateOptions = {}
+  ): AsyncGenerator<GongCall> {
+    return paginate((cursor) => this.listCalls({ ...params, cursor }), options);
+  }
+
+  /**
+   * Get detailed call data including CRM context.
+   * Large ID lists are split into batches (Gong caps the callIds filter), each batch
+   * follows the response cursor, and batches run with bounded concurrency.
+   * Results come back in the order of the input IDs; unknown IDs are omitted.
+   */
+  async getCallsExtensive(
+    callIds: string[],
+    options: { batchSize?: number; concurrency?: number } = {}
+  ): Promise<GongCall[]> {
+    const uniqueIds = [...new Set(callIds)];
+    const batches = chunk(uniqueIds, options.batchSize ?? ID_BATCH_SIZE);
+
+    const batchResults = await mapWithConcurrency(batches, options.concurrency ?? BATCH_CONCURRENCY, async (ids) => {
+      const calls: GongCall[] = [];
+      let cursor: string | undefined;
+
+      do {
+        let response;
+        try {
+          response = await this.request("/calls/extensive", "POST", {
+            filter: { callIds: ids },
+            contentSelector: {
+              context: "Extended",
+              exposedFields: {
+                parties: true,
+                content: { trackers: true, topics: true, pointsOfInterest: true },
+                collaboration: { publicComments: true },
+              },
+            },
+            cursor,
+          }, callsExtensiveResponseSchema);
+        } catch (error) {
+          // Gong answers 404 when none of the batch's IDs exist
+          if (error instanceof GongNotFoundError) break;
+          throw error;
+        }
+
+        calls.push(...(response.calls || []));
+        cursor = response.records?.cursor;
+      } while (cursor);
+
+      return calls;
     });
 
-    return response.calls;
+    const byId = new Map(batchResults.flat().map((call) => [call.id, call]));
+    return uniqueIds.flatMap((id) => byId.get(id) ?? []);
+  }
+
+  /**
+   * Get call transcript; undefined when the call has no transcript
+   */
+  async getTranscript(callId: string): Promise<GongTranscript | undefined> {
+    const [transcript] = await this.getTranscripts([callId]);
+    return transcript;
   }
 
   /**
-   * Get call transcript
+   * Get transcripts for many calls, batched and following the response cursor.
+   * Unknown calls and calls without a transcript are omitted; the rest come back in input order.
    */
-  async getTranscript(callId: string): Promise<GongTranscript> {
-    const response = await this.request<{
-      requestId: string;
-      callTranscripts: GongTranscript[];
-    }>("/calls/transcript", "POST", {
-      filter: { callIds: [callId] },
+  async getTranscripts(
+    callIds: string[],
+    options: { batchSize?: number; concurrency?: number } = {}
+  ): Promise<GongTranscript[]> {
+    const uniqueIds = [...new Set(callIds)];
+    const batches = chunk(uniqueIds, options.batchSize ?? ID_BATCH_SIZE);
+
+    const batchResults = await mapWithConcurrency(batches, options.concurrency ?? BATCH_CONCURRENCY, async (ids) => {
+      const transcripts: GongTranscript[] = [];
+      let cursor: string | undefined;
+
+      do {
+        let response;
+        try {
+          response = await this.request("/calls/transcript", "POST", {
+            filter: { callIds: ids },
+            cursor,
+          }, transcriptsResponseSchema);
+        } catch (error) {
+          // Gong answers 404 when none of the batch's calls exist: no transcripts in this batch
+          if (error instanceof GongNotFoundError) break;
+          throw error;
+        }
+
+        transcripts.push(...(response.callTranscripts || []));
+        cursor = response.records?.cursor;
+      } while (cursor);
+
+      return transcripts;
     });
 
-    return response.callTranscripts[0];
+    const byId = new Map(batchResults.flat().map((transcript) => [transcript.callId, transcript]));
+    return uniqueIds.flatMap((id) => byId.get(id) ?? []);
   }
 
   /**
-   * Search calls by various criteria
+   * Search calls by various criteria.
+   * Server-side filtering uses the /calls/extensive filter (dates, workspace, call IDs,
+   * primary users). Gong has no text search endpoint, so searchTerm is matched locally
+   * against title and participant names/emails - a page may therefore hold fewer
+   * records than Gong returned, while the cursor still advances through the full set.
    */
-  async searchCalls(params: {
-    searchTerm?: string;
-    fromDateTime?: string;
-    toDateTime?: string;
-    primaryUserIds?: string[];
-    cursor?: string;
-  }): Promise<PaginatedResponse<GongCall>> {
-    // Use list calls with filters - Gong doesn't have a dedicated search endpoint
-    // but we can filter by users and dates
-    return this.listCalls({
-      fromDateTime: params.fromDateTime,
-      toDateTime: params.toDateTime,
+  async searchCalls(params: SearchCallsParams & { cursor?: string }): Promise<PaginatedResponse<GongCall>> {
+    const response = await this.request("/calls/extensive", "POST", {
+      filter: {
+        fromDateTime: params.fromDateTime,
+        toDateTime: params.toDateTime,
+        workspaceId: params.workspaceId,
+        primaryUserIds: params.primaryUserIds,
+        callIds: params.callIds,
+      },
+      contentSelector: {
+        exposedFields: { parties: true },
+      },
       cursor: params.cursor,
-    });
+    }, callsExtensiveResponseSchema);
+
+    const calls = response.calls || [];
+    const searchLower = params.searchTerm?.toLowerCase();
+
+    return {
+      records: searchLower ? calls.filter((call) => callMatchesText(call, searchLower)) : calls,
+      cursor: response.records?.cursor,
+      totalRecords: response.records?.totalRecords,
+    };
+  }
+
+  /**
+   * Iterate over all calls matching searchCalls criteria, following cursors across pages
+   */
+  iterateSearchCalls(
+    params: SearchCallsParams,
+    options: IterateOptions = {}
+  ): AsyncGenerator<GongCall> {
+    return paginate((cursor) => this.searchCalls({ ...params, cursor }), options);
   }
 
   // ============ USERS ============
@@ -246,57 +650,92 @@ export class GongClient {
 
     const endpoint = `/users${queryParams.toString() ? `?${queryParams.toString()}` : ""}`;
 
-    const response = await this.request<{
-      requestId: string;
-      records: { currentPageSize: number; currentPageNumber: number; cursor?: string; totalRecords: number };
-      users: GongUser[];
-    }>(endpoint, "GET");
+    const response = await this.request(endpoint, "GET", undefined, listUsersResponseSchema);
 
     return {
-      records: response.users,
-      cursor: response.records.cursor,
-      totalRecords: response.records.totalRecords,
+      records: response.users || [],
+      cursor: response.records?.cursor,
+      totalRecords: response.records?.totalRecords,
     };
   }
 
   /**
-   * Get specific users by ID
+   * Iterate over all users in the workspace, following cursors across pages
+   */
+  iterateUsers(options: IterateOptions = {}): AsyncGenerator<GongUser> {
+    return paginate((cursor) => this.listUsers(cursor), options);
+  }
+
+  /**
+   * Get specific users by ID, batched like getCallsExtensive. Results come back in the
+   * order of the input IDs; unknown IDs are omitted.
    */
-  async getUsers(userIds: string[]): Promise<GongUser[]> {
-    const response = await this.request<{
-      requestId: string;
-      users: GongUser[];
-    }>("/users/extensive", "POST", {
-      filter: { userIds },
+  async getUsers(
+    userIds: string[],
+    options: { batchSize?: number; concurrency?: number } = {}
+  ): Promise<GongUser[]> {
+    const uniqueIds = [...new Set(userIds)];
+    const batches = chunk(uniqueIds, options.batchSize ?? ID_BATCH_SIZE);
+
+    const batchResults = await mapWithConcurrency(batches, options.concurrency ?? BATCH_CONCURRENCY, async (ids) => {
+      const users: GongUser[] = [];
+      let cursor: string | undefined;
+
+      do {
+        let response;
+        try {
+          response = await this.request("/users/extensive", "POST", {
+            filter: { userIds: ids },
+            cursor,
+          }, usersExtensiveResponseSchema);
+        } catch (error) {
+          // Gong answers 404 when none of the batch's IDs exist
+          if (error instanceof GongNotFoundError) break;
+          throw error;
+        }
+
+        users.push(...(response.users || []));
+        cursor = response.records?.cursor;
+      } while (cursor);
+
+      return users;
     });
 
-    return response.users;
+    const byId = new Map(batchResults.flat().map((user) => [user.id, user]));
+    return uniqueIds.flatMap((id) => byId.get(id) ?? []);
   }
 
   // ============ CRM / DEALS ============
 
   /**
-   * Get calls associated with CRM objects (accounts/deals)
+   * Get calls associated with CRM objects (accounts/deals).
+   * Large object ID lists are split into batches run with bounded concurrency.
    */
-  async getCallsByCrmObject(params: {
-    objectType: "Account" | "Deal" | "Lead" | "Contact";
-    objectIds: string[];
-    fromDateTime?: string;
-    toDateTime?: string;
-  }): Promise<{ objectId: string; calls: { callId: string }[] }[]> {
-    const response = await this.request<{
-      requestId: string;
-      crmCallsLinks: { objectId: string; calls: { callId: string }[] }[];
-    }>("/crm/object/calls", "POST", {
-      filter: {
-        objectType: params.objectType,
-        objectIds: params.objectIds,
-        fromDateTime: params.fromDateTime,
-        toDateTime: params.toDateTime,
-      },
+  async getCallsByCrmObject(
+    params: {
+      objectType: "Account" | "Deal" | "Lead" | "Contact";
+      objectIds: string[];
+      fromDateTime?: string;
+      toDateTime?: string;
+    },
+    options: { batchSize?: number; concurrency?: number } = {}
+  ): Promise<{ objectId: string; calls: { callId: string }[] }[]> {
+    const batches = chunk([...new Set(params.objectIds)], options.batchSize ?? ID_BATCH_SIZE);
+
+    const batchResults = await mapWithConcurrency(batches, options.concurrency ?? BATCH_CONCURRENCY, async (ids) => {
+      const response = await this.request("/crm/object/calls", "POST", {
+        filter: {
+          objectType: params.objectType,
+          objectIds: ids,
+          fromDateTime: params.fromDateTime,
+          toDateTime: params.toDateTime,
+        },
+      }, crmObjectCallsResponseSchema);
+
+      return response.crmCallsLinks || [];
     });
 
-    return response.crmCallsLinks;
+    return batchResults.flat();
   }
 
   /**
@@ -308,17 +747,13 @@ export class GongClient {
     cursor?: string;
   } = {}): Promise<PaginatedResponse<GongDeal>> {
     // Note: This requires CRM integration to be set up
-    const response = await this.request<{
-      requestId: string;
-      records: { currentPageSize: number; cursor?: string; totalRecords: number };
-      deals: GongDeal[];
-    }>("/crm/deals", "POST", {
+    const response = await this.request("/crm/deals", "POST", {
       filter: {
         fromDateTime: params.fromDateTime,
         toDateTime: params.toDateTime,
       },
       cursor: params.cursor,
-    });
+    }, listDealsResponseSchema);
 
     return {
       records: response.deals || [],
@@ -327,6 +762,16 @@ export class GongClient {
     };
   }
 
+  /**
+   * Iterate over all deals matching the filters, following cursors across pages
+   */
+  iterateDeals(
+    params: { fromDateTime?: string; toDateTime?: string } = {},
+    options: IterateOptions = {}
+  ): AsyncGenerator<GongDeal> {
+    return paginate((cursor) => this.listDeals({ ...params, cursor }), options);
+  }
+
   // ============ EMAILS ============
 
   /**
@@ -337,17 +782,13 @@ export class GongClient {
     toDateTime?: string;
     cursor?: string;
   } = {}): Promise<PaginatedResponse<GongEmail>> {
-    const response = await this.request<{
-      requestId: string;
-      records: { currentPageSize: number; cursor?: string; totalRecords: number };
-      emailActivities: GongEmail[];
-    }>("/emails", "POST", {
+    const response = await this.request("/emails", "POST", {
       filter: {
         fromDateTime: params.fromDateTime,
         toDateTime: params.toDateTime,
       },
       cursor: params.cursor,
-    });
+    }, listEmailsResponseSchema);
 
     return {
       records: response.emailActivities || [],
@@ -356,6 +797,16 @@ export class GongClient {
     };
   }
 
+  /**
+   * Iterate over all emails matching the filters, following cursors across pages
+   */
+  iterateEmails(
+    params: { fromDateTime?: string; toDateTime?: string } = {},
+    options: IterateOptions = {}
+  ): AsyncGenerator<GongEmail> {
+    return paginate((cursor) => this.listEmails({ ...params, cursor }), options);
+  }
+
   // ============ STATS ============
 
   /**
@@ -365,19 +816,123 @@ export class GongClient {
     fromDate: string;
     toDate: string;
     userIds?: string[];
-  }): Promise<Record<string, unknown>[]> {
-    const response = await this.request<{
-      requestId: string;
-      usersStats: Record<string, unknown>[];
-    }>("/stats/activity/aggregate", "POST", {
+  }): Promise<GongUserActivityStats[]> {
+    const response = await this.request("/stats/activity/aggregate", "POST", {
       filter: {
         fromDate: params.fromDate,
         toDate: params.toDate,
         userIds: params.userIds,
       },
-    });
+    }, userStatsResponseSchema);
+
+    return response.usersStats || [];
+  }
+
+  /**
+   * Get per-user, per-day activity for a date range
+   */
+  async getDayByDayStats(params: {
+    fromDate: string;
+    toDate: string;
+    userIds?: string[];
+    cursor?: string;
+  }): Promise<PaginatedResponse<GongUserDailyActivity>> {
+    const response = await this.request("/stats/activity/day-by-day", "POST", {
+      filter: {
+        fromDate: params.fromDate,
+        toDate: params.toDate,
+        userIds: params.userIds,
+      },
+      cursor: params.cursor,
+    }, dayByDayStatsResponseSchema);
+
+    return {
+      records: response.usersDetailedActivities || [],
+      cursor: response.records?.cursor,
+      totalRecords: response.records?.totalRecords,
+    };
+  }
+
+  /**
+   * Iterate over day-by-day activity for all matching users, following cursors across pages
+   */
+  iterateDayByDayStats(
+    params: { fromDate: string; toDate: string; userIds?: string[] },
+    options: IterateOptions = {}
+  ): AsyncGenerator<GongUserDailyActivity> {
+    return paginate((cursor) => this.getDayByDayStats({ ...params, cursor }), options);
+  }
+
+  /**
+   * Get interaction stats (talk ratio, longest monologue, interactivity, patience...) per user
+   */
+  async getInteractionStats(params: {
+    fromDate: string;
+    toDate: string;
+    userIds?: string[];
+    cursor?: string;
+  }): Promise<PaginatedResponse<GongUserInteractionStats>> {
+    const response = await this.request("/stats/interaction", "POST", {
+      filter: {
+        fromDate: params.fromDate,
+        toDate: params.toDate,
+        userIds: params.userIds,
+      },
+      cursor: params.cursor,
+    }, interactionStatsResponseSchema);
+
+    return {
+      records: response.peopleInteractionStats || [],
+      cursor: response.records?.cursor,
+      totalRecords: response.records?.totalRecords,
+    };
+  }
+
+  /**
+   * Iterate over interaction stats for all matching users, following cursors across pages
+   */
+  iterateInteractionStats(
+    params: { fromDate: string; toDate: string; userIds?: string[] },
+    options: IterateOptions = {}
+  ): AsyncGenerator<GongUserInteractionStats> {
+    return paginate((cursor) => this.getInteractionStats({ ...params, cursor }), options);
+  }
+
+  // ============ SCORECARDS ============
+
+  /**
+   * List scorecard templates with their questions
+   */
+  async listScorecards(): Promise<GongScorecard[]> {
+    const response = await this.request("/settings/scorecards", "GET", undefined, scorecardsResponseSchema);
 
-    return response.usersStats;
+    return response.scorecards || [];
+  }
+
+  /**
+   * Get answered scorecards, filtered by review date, call date, template and reviewed user
+   */
+  async getAnsweredScorecards(
+    params: AnsweredScorecardsParams & { cursor?: string } = {}
+  ): Promise<PaginatedResponse<GongAnsweredScorecard>> {
+    const { cursor, ...filter } = params;
+    const response = await this.request("/stats/activity/scorecards", "POST", { filter, cursor }, answeredScorecardsResponseSchema);
+
+    return {
+      records: response.answeredScorecards || [],
+      cursor: response.records?.cursor,
+      totalRecords: response.records?.totalRecords,
+    };
+  }
+
+  /**
+   * Iterate over all answered scorecards matching the filters, following cursors across pages
+   */
+  iterateAnsweredScorecards(
+    params: AnsweredScorecardsParams = {},
+    options: IterateOptions = {}
+  ): AsyncGenerator<GongAnsweredScorecard> {
+    return paginate((cursor) => this.getAnsweredScorecards({ ...params, cursor }), options);
   }
 
   // ============ LIBRARY (Saved Calls) ============
@@ -386,11 +941,89 @@ export class GongClient {
    * List library folders and saved calls
    */
   async listLibraryFolders(): Promise<{ id: string; name: string }[]> {
-    const response = await this.request<{
-      requestId: string;
-      libraryFolders: { id: string; name: string }[];
-    }>("/library/folders", "GET");
+    const response = await this.request("/library/folders", "GET", undefined, libraryFoldersResponseSchema);
+
+    return response.libraryFolders || [];
+  }
+}
+
+/**
+ * Yield records from a cursor-paginated endpoint until the cursor runs out or a limit is hit
+ */
+async function* paginate<T>(
+  fetchPage: (cursor?: string) => Promise<PaginatedResponse<T>>,
+  options: IterateOptions
+): AsyncGenerator<T> {
+  const { maxPages = Infinity, maxRecords = Infinity, signal } = options;
+  let cursor: string | undefined;
+  let pages = 0;
+  let yielded = 0;
+
+  while (pages < maxPages && yielded < maxRecords) {
+    signal?.throwIfAborted();
 
-    return response.libraryFolders;
+    const page = await fetchPage(cursor);
+    pages++;
+
+    for (const record of page.records) {
+      if (yielded >= maxRecords) return;
+      yield record;
+      yielded++;
+    }
+
+    cursor = page.cursor;
+    if (!cursor) return;
   }
 }
+
+function callMatchesText(call: GongCall, searchLower: string): boolean {
+  if (call.title?.toLowerCase().includes(searchLower)) return true;
+  return (call.parties || []).some(
+    (p) => p.name?.toLowerCase().includes(searchLower) || p.emailAddress?.toLowerCase().includes(searchLower)
+  );
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Map items through an async function with at most `limit` in flight, preserving order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
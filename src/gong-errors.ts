@@ -0,0 +1,124 @@
+/**
+ * Gong API Errors
+ * Typed errors thrown by GongClient so callers can tell an expired key from a
+ * missing call from a rate limit without parsing message strings.
+ *
+ * Gong error bodies look like: { "requestId": "...", "errors": ["..."] }
+ */
+
+export interface GongApiErrorDetails {
+  status: number;
+  endpoint: string;
+  requestId?: string;
+  errors: string[];
+  rawBody: string;
+}
+
+export class GongApiError extends Error {
+  readonly status: number;
+  readonly endpoint: string;
+  readonly requestId?: string;
+  readonly errors: string[];
+  readonly rawBody: string;
+  readonly retryable: boolean = false;
+
+  constructor(details: GongApiErrorDetails) {
+    const summary = details.errors.length > 0 ? details.errors.join("; ") : details.rawBody;
+    super(`Gong API error (${details.status}) on ${details.endpoint}: ${summary}`);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.requestId = details.requestId;
+    this.errors = details.errors;
+    this.rawBody = details.rawBody;
+  }
+}
+
+/** 401 - access key missing, wrong or expired */
+export class GongAuthError extends GongApiError {}
+
+/** 403 - key is valid but lacks the scope for this endpoint */
+export class GongPermissionError extends GongApiError {}
+
+/** 404 - requested object does not exist (or no records matched the filter) */
+export class GongNotFoundError extends GongApiError {}
+
+/** 400/422 - malformed request, e.g. bad date format or unknown filter field */
+export class GongValidationError extends GongApiError {}
+
+/** 429 - rate limit exceeded */
+export class GongRateLimitError extends GongApiError {
+  override readonly retryable = true;
+  readonly retryAfterMs?: number;
+
+  constructor(details: GongApiErrorDetails & { retryAfterMs?: number }) {
+    super(details);
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/** 5xx - Gong-side failure */
+export class GongServerError extends GongApiError {
+  override readonly retryable = true;
+}
+
+/**
+ * A 2xx response whose body did not match the expected schema
+ */
+export class GongResponseValidationError extends Error {
+  readonly endpoint: string;
+  readonly issues: { path: string; message: string }[];
+
+  constructor(endpoint: string, issues: { path: string; message: string }[]) {
+    const summary = issues.map((issue) => `${issue.path || "(root)"}: ${issue.message}`).join("; ");
+    super(`Unexpected response shape from ${endpoint}: ${summary}`);
+    this.name = "GongResponseValidationError";
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Build the matching GongApiError subclass from a failed response
+ */
+export function createGongApiError(params: {
+  status: number;
+  endpoint: string;
+  body: string;
+  retryAfterMs?: number;
+}): GongApiError {
+  const details: GongApiErrorDetails = {
+    status: params.status,
+    endpoint: params.endpoint,
+    rawBody: params.body,
+    ...parseErrorBody(params.body),
+  };
+
+  switch (params.status) {
+    case 400:
+    case 422:
+      return new GongValidationError(details);
+    case 401:
+      return new GongAuthError(details);
+    case 403:
+      return new GongPermissionError(details);
+    case 404:
+      return new GongNotFoundError(details);
+    case 429:
+      return new GongRateLimitError({ ...details, retryAfterMs: params.retryAfterMs });
+    default:
+      return params.status >= 500 ? new GongServerError(details) : new GongApiError(details);
+  }
+}
+
+function parseErrorBody(body: string): { requestId?: string; errors: string[] } {
+  try {
+    const parsed = JSON.parse(body) as { requestId?: unknown; errors?: unknown };
+    return {
+      requestId: typeof parsed.requestId === "string" ? parsed.requestId : undefined,
+      errors: Array.isArray(parsed.errors) ? parsed.errors.map(String) : [],
+    };
+  } catch {
+    return { errors: [] };
+  }
+}
@@ -0,0 +1,356 @@
+/**
+ * Gong API Response Schemas
+ * Runtime (zod) mirrors of the interfaces in gong-client.ts, used to validate every
+ * response before it reaches tool code. Each record schema is typed as SchemaFor<its
+ * interface> and GongClient returns the parsed output, so the two can't drift apart.
+ * Objects are passthrough so fields we don't model survive; optional fields accept null
+ * because Gong sends both, and parse it to undefined to match the interfaces.
+ */
+
+import { z } from "zod";
+import type {
+  GongActivityStats,
+  GongAnsweredScorecard,
+  GongCall,
+  GongCallContent,
+  GongDeal,
+  GongEmail,
+  GongParty,
+  GongScorecard,
+  GongTranscript,
+  GongUser,
+  GongUserActivityStats,
+  GongUserDailyActivity,
+  GongUserInteractionStats,
+} from "./gong-client.js";
+
+// ============ SHARED ============
+
+/** A schema whose parsed output must fit the interface T */
+type SchemaFor<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+function optional<T extends z.ZodTypeAny>(schema: T) {
+  return schema.nullish().transform((value) => value ?? undefined);
+}
+
+const crmObjectsSchema = z.array(
+  z
+    .object({
+      objectType: z.string(),
+      objectId: z.string(),
+      fields: z.array(z.object({ name: z.string(), value: z.unknown() }).passthrough()),
+    })
+    .passthrough()
+);
+
+const crmContextSchema = z.object({ system: z.string(), objects: crmObjectsSchema }).passthrough();
+
+const recordsSchema = z
+  .object({
+    currentPageSize: optional(z.number()),
+    currentPageNumber: optional(z.number()),
+    cursor: optional(z.string()),
+    totalRecords: optional(z.number()),
+  })
+  .passthrough();
+
+// ============ CALLS ============
+
+export const gongPartySchema: SchemaFor<GongParty> = z
+  .object({
+    id: z.string(),
+    emailAddress: optional(z.string()),
+    name: optional(z.string()),
+    title: optional(z.string()),
+    userId: optional(z.string()),
+    speakerId: optional(z.string()),
+    context: optional(z.array(crmContextSchema)),
+    affiliation: z.enum(["Internal", "External", "Unknown"]),
+  })
+  .passthrough();
+
+export const gongCallContentSchema: SchemaFor<GongCallContent> = z
+  .object({
+    trackers: optional(
+      z.array(
+        z
+          .object({
+            id: z.string(),
+            name: z.string(),
+            count: z.number(),
+            occurrences: optional(
+              z.array(z.object({ startTime: z.number(), speakerId: optional(z.string()) }).passthrough())
+            ),
+          })
+          .passthrough()
+      )
+    ),
+    topics: optional(z.array(z.object({ name: z.string(), duration: z.number() }).passthrough())),
+    pointsOfInterest: optional(z.array(z.object({ type: z.string(), startTime: z.number() }).passthrough())),
+  })
+  .passthrough();
+
+export const gongCallSchema: SchemaFor<GongCall> = z
+  .object({
+    id: z.string(),
+    title: optional(z.string()),
+    scheduled: optional(z.string()),
+    started: z.string(),
+    duration: z.number(),
+    primaryUserId: optional(z.string()),
+    direction: optional(z.string()),
+    scope: optional(z.string()),
+    media: optional(z.string()),
+    language: optional(z.string()),
+    url: z.string(),
+    parties: optional(z.array(gongPartySchema)),
+    content: optional(gongCallContentSchema),
+    context: optional(z.array(crmContextSchema)),
+  })
+  .passthrough();
+
+export const gongTranscriptSchema: SchemaFor<GongTranscript> = z
+  .object({
+    callId: z.string(),
+    transcript: z.array(
+      z
+        .object({
+          speakerId: z.string(),
+          topic: optional(z.string()),
+          sentences: z.array(z.object({ start: z.number(), end: z.number(), text: z.string() }).passthrough()),
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
+export const listCallsResponseSchema = z
+  .object({ records: recordsSchema, calls: z.array(gongCallSchema) })
+  .passthrough();
+
+export const callsExtensiveResponseSchema = z
+  .object({ records: optional(recordsSchema), calls: optional(z.array(gongCallSchema)) })
+  .passthrough();
+
+export const transcriptsResponseSchema = z
+  .object({ records: optional(recordsSchema), callTranscripts: optional(z.array(gongTranscriptSchema)) })
+  .passthrough();
+
+// ============ USERS ============
+
+export const gongUserSchema: SchemaFor<GongUser> = z
+  .object({
+    id: z.string(),
+    emailAddress: optional(z.string()),
+    firstName: optional(z.string()),
+    lastName: optional(z.string()),
+    title: optional(z.string()),
+    phoneNumber: optional(z.string()),
+    extension: optional(z.string()),
+    personalMeetingUrls: optional(z.array(z.string())),
+    settings: optional(z.object({}).passthrough()),
+    managerId: optional(z.string()),
+    meetingConsentPageUrl: optional(z.string()),
+    active: z.boolean(),
+    created: optional(z.string()),
+  })
+  .passthrough();
+
+export const listUsersResponseSchema = z
+  .object({ records: recordsSchema, users: z.array(gongUserSchema) })
+  .passthrough();
+
+export const usersExtensiveResponseSchema = z
+  .object({ records: optional(recordsSchema), users: z.array(gongUserSchema) })
+  .passthrough();
+
+// ============ CRM / DEALS ============
+
+export const crmObjectCallsResponseSchema = z
+  .object({
+    crmCallsLinks: z.array(
+      z
+        .object({
+          objectId: z.string(),
+          calls: z.array(z.object({ callId: z.string() }).passthrough()),
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
+export const gongDealSchema: SchemaFor<GongDeal> = z
+  .object({
+    id: z.string(),
+    url: optional(z.string()),
+    title: optional(z.string()),
+    account: optional(z.object({ id: z.string(), name: z.string() }).passthrough()),
+    ownerId: optional(z.string()),
+    closeDate: optional(z.string()),
+    amount: optional(z.number()),
+    stage: optional(z.string()),
+    status: optional(z.string()),
+  })
+  .passthrough();
+
+export const listDealsResponseSchema = z
+  .object({ records: recordsSchema, deals: z.array(gongDealSchema) })
+  .passthrough();
+
+// ============ EMAILS ============
+
+export const gongEmailSchema: SchemaFor<GongEmail> = z
+  .object({
+    id: z.string(),
+    subject: optional(z.string()),
+    fromEmailAddress: z.string(),
+    toEmailAddresses: z.array(z.string()),
+    ccEmailAddresses: optional(z.array(z.string())),
+    sentTime: z.string(),
+    direction: z.enum(["Inbound", "Outbound"]),
+    body: optional(z.string()),
+  })
+  .passthrough();
+
+export const listEmailsResponseSchema = z
+  .object({ records: recordsSchema, emailActivities: z.array(gongEmailSchema) })
+  .passthrough();
+
+// ============ STATS ============
+
+export const gongActivityStatsSchema: SchemaFor<GongActivityStats> = z
+  .object({
+    callsAsHost: optional(z.number()),
+    callsAttended: optional(z.number()),
+    callsGaveFeedback: optional(z.number()),
+    callsReceivedFeedback: optional(z.number()),
+    callsRequestedFeedback: optional(z.number()),
+    callsScorecardsFilled: optional(z.number()),
+    callsScorecardsReceived: optional(z.number()),
+    callsSharedInternally: optional(z.number()),
+    callsSharedExternally: optional(z.number()),
+    callsCommentsGiven: optional(z.number()),
+    callsCommentsReceived: optional(z.number()),
+    ownCallsListenedTo: optional(z.number()),
+    othersCallsListenedTo: optional(z.number()),
+  })
+  .passthrough();
+
+export const gongUserActivityStatsSchema: SchemaFor<GongUserActivityStats> = z
+  .object({
+    userId: z.string(),
+    userEmailAddress: optional(z.string()),
+    userAggregateActivityStats: gongActivityStatsSchema,
+  })
+  .passthrough();
+
+export const userStatsResponseSchema = z
+  .object({ usersStats: z.array(gongUserActivityStatsSchema) })
+  .passthrough();
+
+const callIdsSchema = optional(z.array(z.string()));
+
+export const gongUserDailyActivitySchema: SchemaFor<GongUserDailyActivity> = z
+  .object({
+    userId: z.string(),
+    userEmailAddress: optional(z.string()),
+    userDailyActivityStats: z.array(
+      z
+        .object({
+          fromDate: z.string(),
+          toDate: optional(z.string()),
+          callsAsHost: callIdsSchema,
+          callsAttended: callIdsSchema,
+          callsGaveFeedback: callIdsSchema,
+          callsReceivedFeedback: callIdsSchema,
+          callsRequestedFeedback: callIdsSchema,
+          callsScorecardsFilled: callIdsSchema,
+          callsScorecardsReceived: callIdsSchema,
+          callsSharedInternally: callIdsSchema,
+          callsSharedExternally: callIdsSchema,
+          callsCommentsGiven: callIdsSchema,
+          callsCommentsReceived: callIdsSchema,
+          ownCallsListenedTo: callIdsSchema,
+          othersCallsListenedTo: callIdsSchema,
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
+export const dayByDayStatsResponseSchema = z
+  .object({ records: optional(recordsSchema), usersDetailedActivities: z.array(gongUserDailyActivitySchema) })
+  .passthrough();
+
+export const gongUserInteractionStatsSchema: SchemaFor<GongUserInteractionStats> = z
+  .object({
+    userId: z.string(),
+    userEmailAddress: optional(z.string()),
+    personInteractionStats: z.array(z.object({ name: z.string(), value: optional(z.number()) }).passthrough()),
+  })
+  .passthrough();
+
+export const interactionStatsResponseSchema = z
+  .object({ records: optional(recordsSchema), peopleInteractionStats: z.array(gongUserInteractionStatsSchema) })
+  .passthrough();
+
+// ============ SCORECARDS ============
+
+export const gongScorecardSchema: SchemaFor<GongScorecard> = z
+  .object({
+    scorecardId: z.string(),
+    scorecardName: z.string(),
+    workspaceId: optional(z.string()),
+    enabled: optional(z.boolean()),
+    created: optional(z.string()),
+    updated: optional(z.string()),
+    questions: z.array(
+      z
+        .object({
+          questionId: z.string(),
+          questionText: z.string(),
+          isOverall: optional(z.boolean()),
+          minRange: optional(z.number()),
+          maxRange: optional(z.number()),
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
+export const scorecardsResponseSchema = z.object({ scorecards: z.array(gongScorecardSchema) }).passthrough();
+
+export const gongAnsweredScorecardSchema: SchemaFor<GongAnsweredScorecard> = z
+  .object({
+    answeredScorecardId: z.string(),
+    scorecardId: z.string(),
+    scorecardName: optional(z.string()),
+    callId: z.string(),
+    callStartTime: optional(z.string()),
+    reviewedUserId: z.string(),
+    reviewerUserId: z.string(),
+    reviewTime: z.string(),
+    visibilityType: optional(z.string()),
+    answers: z.array(
+      z
+        .object({
+          questionId: z.string(),
+          isOverall: optional(z.boolean()),
+          score: optional(z.number()),
+          answerText: optional(z.string()),
+          notApplicable: optional(z.boolean()),
+        })
+        .passthrough()
+    ),
+  })
+  .passthrough();
+
+export const answeredScorecardsResponseSchema = z
+  .object({ records: optional(recordsSchema), answeredScorecards: z.array(gongAnsweredScorecardSchema) })
+  .passthrough();
+
+// ============ LIBRARY ============
+
+export const libraryFoldersResponseSchema = z
+  .object({ libraryFolders: z.array(z.object({ id: z.string(), name: z.string() }).passthrough()) })
+  .passthrough();
@@ -11,22 +11,39 @@
  * Environment variables:
  *   GONG_ACCESS_KEY - Your Gong API access key
  *   GONG_ACCESS_KEY_SECRET - Your Gong API access key secret
+ *
+ * OAuth app credentials (GONG_OAUTH_*) can replace the access key pair. These and the
+ * optional client settings (GONG_API_BASE_URL, GONG_REQUEST_TIMEOUT_MS, GONG_MAX_RETRIES,
+ * GONG_RESPONSE_VALIDATION, GONG_DEFAULT_HEADERS) are documented in config.ts.
  */
 
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { gongAuthFromEnv, gongConfigFromEnv } from "./config.js";
 import { GongClient } from "./gong-client.js";
 import { createGongMcpServer } from "./server.js";
 
 // Initialize client from environment
-const accessKey = process.env.GONG_ACCESS_KEY;
-const accessKeySecret = process.env.GONG_ACCESS_KEY_SECRET;
+const auth = gongAuthFromEnv();
 
-if (!accessKey || !accessKeySecret) {
-  console.error("ERROR: GONG_ACCESS_KEY and GONG_ACCESS_KEY_SECRET environment variables are required");
+if (!auth) {
+  console.error(
+    "ERROR: GONG_ACCESS_KEY and GONG_ACCESS_KEY_SECRET (or GONG_OAUTH_CLIENT_ID, GONG_OAUTH_CLIENT_SECRET and GONG_OAUTH_REFRESH_TOKEN) environment variables are required"
+  );
   process.exit(1);
 }
 
-const gong = new GongClient({ accessKey, accessKeySecret });
+const envConfig = gongConfigFromEnv();
+
+const gong = new GongClient({
+  ...envConfig,
+  auth,
+  retry: {
+    ...envConfig.retry,
+    onRetry: ({ endpoint, attempt, delayMs, status }) => {
+      console.error(`Retrying ${endpoint} (attempt ${attempt}, status ${status ?? "network error"}) in ${delayMs}ms`);
+    },
+  },
+});
 
 // Create MCP server with all tools
 const server = createGongMcpServer(gong);
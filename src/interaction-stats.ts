@@ -0,0 +1,48 @@
+/**
+ * Interaction Stats
+ * Normalizes /stats/interaction entries - a list of named values per user - into
+ * typed fields, keeping any stats Gong adds later under `other`.
+ */
+
+import type { GongUserInteractionStats } from "./gong-client.js";
+
+export interface InteractionStats {
+  userId: string;
+  email?: string;
+  /** Share of talk time on the user's calls, 0-1 */
+  talkRatio?: number;
+  longestMonologueSeconds?: number;
+  longestCustomerStorySeconds?: number;
+  /** Speaker switches per minute */
+  interactivity?: number;
+  /** Average pause in seconds before responding to the customer */
+  patienceSeconds?: number;
+  questionRate?: number;
+  other: Record<string, number>;
+}
+
+const FIELDS: Record<string, keyof Omit<InteractionStats, "userId" | "email" | "other">> = {
+  talkratio: "talkRatio",
+  longestmonologue: "longestMonologueSeconds",
+  longestcustomerstory: "longestCustomerStorySeconds",
+  interactivity: "interactivity",
+  patience: "patienceSeconds",
+  questionrate: "questionRate",
+};
+
+export function normalizeInteractionStats(entry: GongUserInteractionStats): InteractionStats {
+  const stats: InteractionStats = { userId: entry.userId, email: entry.userEmailAddress, other: {} };
+
+  for (const { name, value } of entry.personInteractionStats) {
+    if (value === undefined || value === null) continue;
+    const field = FIELDS[name.toLowerCase().replace(/[^a-z]/g, "")];
+    if (field) {
+      // Gong reports talk ratio as a fraction, but some workspaces return a percentage
+      stats[field] = field === "talkRatio" && value > 1 ? value / 100 : value;
+    } else {
+      stats.other[name] = value;
+    }
+  }
+
+  return stats;
+}
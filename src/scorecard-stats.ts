@@ -0,0 +1,102 @@
+/**
+ * Scorecard Stats
+ * Average answered-scorecard scores per question and per reviewed rep. Answers marked
+ * not applicable, or without a numeric score, are left out of the averages.
+ */
+
+import type { GongAnsweredScorecard, GongScorecard } from "./gong-client.js";
+
+export interface QuestionAverage {
+  scorecardId: string;
+  scorecardName?: string;
+  questionId: string;
+  questionText?: string;
+  isOverall: boolean;
+  average: number;
+  answers: number;
+  maxRange?: number;
+}
+
+export interface RepAverage {
+  userId: string;
+  scorecards: number;
+  /** Average of the overall question, where the scorecard has one */
+  overallAverage?: number;
+  /** Average of every scored answer */
+  average?: number;
+  byQuestion: { questionId: string; average: number; answers: number }[];
+}
+
+export function averageByQuestion(answered: GongAnsweredScorecard[], templates: GongScorecard[]): QuestionAverage[] {
+  const questions = questionsById(templates);
+  const totals = new Map<string, { scorecard: GongAnsweredScorecard; isOverall: boolean; scores: number[] }>();
+
+  for (const scorecard of answered) {
+    for (const answer of scoredAnswers(scorecard)) {
+      const total = totals.get(answer.questionId) ?? { scorecard, isOverall: !!answer.isOverall, scores: [] };
+      total.scores.push(answer.score);
+      totals.set(answer.questionId, total);
+    }
+  }
+
+  return [...totals].map(([questionId, { scorecard, isOverall, scores }]) => {
+    const known = questions.get(questionId);
+    return {
+      scorecardId: scorecard.scorecardId,
+      scorecardName: known?.template.scorecardName ?? scorecard.scorecardName,
+      questionId,
+      questionText: known?.question.questionText,
+      isOverall: known?.question.isOverall ?? isOverall,
+      average: mean(scores),
+      answers: scores.length,
+      maxRange: known?.question.maxRange,
+    };
+  });
+}
+
+/**
+ * Averages per reviewed rep. Whether an answer is the overall rating comes from its template
+ * question, as in averageByQuestion, or from the answer itself for questions no longer on it.
+ */
+export function averageByRep(answered: GongAnsweredScorecard[], templates: GongScorecard[]): RepAverage[] {
+  const questions = questionsById(templates);
+  const byRep = new Map<string, GongAnsweredScorecard[]>();
+  for (const scorecard of answered) {
+    byRep.set(scorecard.reviewedUserId, [...(byRep.get(scorecard.reviewedUserId) ?? []), scorecard]);
+  }
+
+  return [...byRep].map(([userId, scorecards]) => {
+    const answers = scorecards.flatMap(scoredAnswers);
+    const byQuestion = new Map<string, number[]>();
+    for (const answer of answers) {
+      byQuestion.set(answer.questionId, [...(byQuestion.get(answer.questionId) ?? []), answer.score]);
+    }
+    const overall = answers
+      .filter((a) => questions.get(a.questionId)?.question.isOverall ?? a.isOverall)
+      .map((a) => a.score);
+
+    return {
+      userId,
+      scorecards: scorecards.length,
+      overallAverage: overall.length > 0 ? mean(overall) : undefined,
+      average: answers.length > 0 ? mean(answers.map((a) => a.score)) : undefined,
+      byQuestion: [...byQuestion].map(([questionId, scores]) => ({ questionId, average: mean(scores), answers: scores.length })),
+    };
+  });
+}
+
+function questionsById(templates: GongScorecard[]) {
+  return new Map(
+    templates.flatMap((template) => template.questions.map((q) => [q.questionId, { template, question: q }] as const))
+  );
+}
+
+function scoredAnswers(scorecard: GongAnsweredScorecard) {
+  return scorecard.answers.flatMap((answer) =>
+    !answer.notApplicable && typeof answer.score === "number" ? [{ ...answer, score: answer.score }] : []
+  );
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
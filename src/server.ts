@@ -7,7 +7,60 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import type { GongClient } from "./gong-client.js";
+import { bucketActivity, toCsv } from "./activity-trends.js";
+import {
+  buildTimeline,
+  callInvolvesDomains,
+  emailInvolvesContacts,
+  externalContacts,
+  type TimelineTouch,
+} from "./account-timeline.js";
+import { aggregateAnalytics, analyzeCall } from "./call-analytics.js";
+import { assessDealRisk, daysBetween, summarizeDealEngagement } from "./deal-brief.js";
+import { groupThreads, matchesEmailFilter, normalizeEmailBody, threadSubject } from "./email-threads.js";
+import type {
+  GongCall,
+  GongClient,
+  GongDeal,
+  GongEmail,
+  GongParty,
+  GongUser,
+  GongUserDailyActivity,
+} from "./gong-client.js";
+import {
+  GongApiError,
+  GongAuthError,
+  GongNotFoundError,
+  GongPermissionError,
+  GongRateLimitError,
+  GongResponseValidationError,
+  GongServerError,
+  GongValidationError,
+} from "./gong-errors.js";
+import { normalizeInteractionStats } from "./interaction-stats.js";
+import { averageByQuestion, averageByRep } from "./scorecard-stats.js";
+import { resolveSpeakers, type ResolvedSpeaker } from "./speakers.js";
+import {
+  ACTIVITY_METRICS,
+  compareMetric,
+  previousPeriod,
+  rollupTeam,
+  type ActivityMetric,
+  type MetricChange,
+  type TeamRollup,
+} from "./team-stats.js";
+import { extractTrackerExcerpts, matchTrackers } from "./tracker-excerpts.js";
+import { formatClock, formatTranscript, type TranscriptFormat } from "./transcript-format.js";
+import { parseSearchQuery, searchTranscript } from "./transcript-search.js";
+import { chunkTranscript, filterTranscript } from "./transcript-window.js";
+import { buildTeamTree, findUsers, flattenTeam, fullName, type TeamNode } from "./user-directory.js";
+
+const TRANSCRIPT_FORMAT_PARAM = z
+  .enum(["labelled", "markdown", "srt", "vtt", "text"])
+  .optional()
+  .describe(
+    "Text format: labelled = [Speaker - Topic]: text (default), markdown = topic sections with speaker headers and timestamps, srt / vtt = subtitle cues per sentence, text = plain Speaker: text"
+  );
 
 /**
  * Creates a configured Gong MCP server instance with all tool definitions
@@ -66,10 +119,9 @@ export function createGongMcpServer(gong: GongClient): McpServer {
           ],
         };
       } catch (error) {
-        return {
-          content: [{ type: "text" as const, text: `Error listing calls: ${error}` }],
-          isError: true,
-        };
+        return toolError("Error listing calls", error, {
+          notFound: "No calls found in this date range. Try widening from_date/to_date.",
+        });
       }
     }
   );
@@ -94,26 +146,14 @@ export function createGongMcpServer(gong: GongClient): McpServer {
         const effectiveMaxResults = max_results || 20;
 
         // Fetch calls from the date range with pagination
-        const allCalls: any[] = [];
-        let cursor: string | undefined = undefined;
-        let pagesSearched = 0;
-        const MAX_PAGES = 10; // Limit to prevent too many API calls
-
-        while (pagesSearched < MAX_PAGES) {
-          const result = await gong.listCalls({
-            fromDateTime: effectiveFromDate,
-            toDateTime: effectiveToDate,
-            cursor,
-          });
-
-          allCalls.push(...result.records);
-          cursor = result.cursor;
-          pagesSearched++;
-
-          // Stop if we have enough calls or no more pages
-          if (!cursor || allCalls.length >= 1000) {
-            break;
-          }
+        const retriesBefore = gong.getRequestStats().retries;
+        const allCalls: GongCall[] = [];
+        const calls = gong.iterateCalls(
+          { fromDateTime: effectiveFromDate, toDateTime: effectiveToDate },
+          { maxPages: 10, maxRecords: 1000 } // Limit to prevent too many API calls
+        );
+        for await (const call of calls) {
+          allCalls.push(call);
         }
 
         // Filter calls by search term (case-insensitive)
@@ -130,7 +170,7 @@ export function createGongMcpServer(gong: GongClient): McpServer {
             }
 
             // Check participant names
-            const participantMatches = call.parties?.filter((p: any) =>
+            const participantMatches = call.parties?.filter((p) =>
               p.name?.toLowerCase().includes(searchLower) ||
               p.emailAddress?.toLowerCase().includes(searchLower)
             ) || [];
@@ -161,6 +201,7 @@ export function createGongMcpServer(gong: GongClient): McpServer {
                     date_range: { from: effectiveFromDate, to: effectiveToDate },
                     calls_searched: allCalls.length,
                     matches_found: matchingCalls.length,
+                    api_retries: gong.getRequestStats().retries - retriesBefore,
                   },
                   matching_calls: matchingCalls.map(({ call, relevanceScore, matchReasons }) => ({
                     id: call.id,
@@ -169,7 +210,7 @@ export function createGongMcpServer(gong: GongClient): McpServer {
                     duration_seconds: call.duration,
                     direction: call.direction,
                     url: call.url,
-                    participants: call.parties?.map((p: any) => ({
+                    participants: call.parties?.map((p) => ({
                       name: p.name,
                       email: p.emailAddress,
                       affiliation: p.affiliation,
@@ -188,10 +229,69 @@ export function createGongMcpServer(gong: GongClient): McpServer {
           ],
         };
       } catch (error) {
+        return toolError("Error searching calls", error);
+      }
+    }
+  );
+
+  server.tool(
+    "gong_search_calls",
+    "Search calls with server-side filters: primary user (rep), call IDs, workspace and date range, optionally narrowed by text in the title or participant names/emails. Use gong_list_users to find user IDs.",
+    {
+      primary_user_ids: z.array(z.string()).optional().describe("Only calls hosted by these Gong user IDs"),
+      call_ids: z.array(z.string()).optional().describe("Only these Gong call IDs"),
+      workspace_id: z.string().optional().describe("Only calls in this Gong workspace"),
+      from_date: z.string().optional().describe("Start date in ISO format (e.g., 2024-01-01T00:00:00Z)"),
+      to_date: z.string().optional().describe("End date in ISO format"),
+      search_term: z.string().optional().describe("Text to match in call title, participant names, or participant emails"),
+      cursor: z.string().optional().describe("Pagination cursor from previous response"),
+    },
+    async ({ primary_user_ids, call_ids, workspace_id, from_date, to_date, search_term, cursor }) => {
+      try {
+        const result = await gong.searchCalls({
+          primaryUserIds: primary_user_ids,
+          callIds: call_ids,
+          workspaceId: workspace_id,
+          fromDateTime: from_date,
+          toDateTime: to_date,
+          searchTerm: search_term,
+          cursor,
+        });
+
         return {
-          content: [{ type: "text" as const, text: `Error searching calls: ${error}` }],
-          isError: true,
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  calls: result.records.map((call) => ({
+                    id: call.id,
+                    title: call.title,
+                    date: call.started,
+                    duration_seconds: call.duration,
+                    direction: call.direction,
+                    primary_user_id: call.primaryUserId,
+                    url: call.url,
+                    participants: call.parties?.map((p) => ({
+                      name: p.name,
+                      email: p.emailAddress,
+                      affiliation: p.affiliation,
+                      title: p.title,
+                    })),
+                  })),
+                  next_cursor: result.cursor,
+                  total_records: result.totalRecords,
+                },
+                null,
+                2
+              ),
+            },
+          ],
         };
+      } catch (error) {
+        return toolError("Error searching calls", error, {
+          notFound: "No calls matched these filters. Check the user IDs with gong_list_users, or widen the date range.",
+        });
       }
     }
   );
@@ -234,31 +334,81 @@ export function createGongMcpServer(gong: GongClient): McpServer {
           ],
         };
       } catch (error) {
-        return {
-          content: [{ type: "text" as const, text: `Error getting call details: ${error}` }],
-          isError: true,
-        };
+        return toolError("Error getting call details", error, {
+          notFound: "One or more call IDs were not found. Verify the IDs with gong_list_calls or gong_search_calls_by_text.",
+        });
       }
     }
   );
 
   server.tool(
     "gong_get_transcript",
-    "Get the full transcript of a specific call, including speaker identification and timestamps.",
+    "Get the transcript of a specific call. Each monologue is labelled with the speaker's name, title and Internal/External affiliation; raw speaker IDs are kept alongside. Long calls are returned in numbered chunks with a continuation_token; narrow the result with a time window, topic or speaker.",
     {
       call_id: z.string().describe("The Gong call ID"),
+      start_seconds: z.number().optional().describe("Only sentences starting at or after this many seconds into the call"),
+      end_seconds: z.number().optional().describe("Only sentences starting before this many seconds into the call"),
+      topic: z.string().optional().describe("Only monologues in this Gong topic (see available_topics in the response)"),
+      speaker: z
+        .string()
+        .optional()
+        .describe("Only this speaker: a name, email or speaker ID (partial match), or Internal / External"),
+      output: z
+        .enum(["formatted", "raw", "both"])
+        .optional()
+        .describe("formatted = readable text (default), raw = sentences with start/end times, both = both"),
+      format: TRANSCRIPT_FORMAT_PARAM,
+      max_chars: z.number().optional().describe("Approximate size of each chunk in characters. Defaults to 40000."),
+      continuation_token: z
+        .string()
+        .optional()
+        .describe("Token from a previous response to fetch the next chunk; other filters are carried in the token"),
     },
-    async ({ call_id }) => {
+    async (args) => {
+      const notFound = "Call ID not found, or the call has no transcript yet. Verify the ID with gong_list_calls.";
       try {
-        const transcript = await gong.getTranscript(call_id);
+        // A continuation token carries the original filters plus the chunk to return
+        const params: TranscriptChunkParams = args.continuation_token
+          ? decodeContinuationToken(args.continuation_token)
+          : {
+              start_seconds: args.start_seconds,
+              end_seconds: args.end_seconds,
+              topic: args.topic,
+              speaker: args.speaker,
+              output: args.output,
+              format: args.format,
+              max_chars: args.max_chars,
+            };
+        const output = params.output ?? "formatted";
+        const format = params.format ?? "labelled";
+        const maxChars = params.max_chars || 40_000;
+        const chunkIndex = params.chunk ?? 0;
 
-        // Format transcript for readability
-        const formattedTranscript = transcript.transcript
-          .map((entry) => {
-            const sentences = entry.sentences.map((s) => s.text).join(" ");
-            return `[Speaker ${entry.speakerId}${entry.topic ? ` - ${entry.topic}` : ""}]: ${sentences}`;
-          })
-          .join("\n\n");
+        const [transcript, partiesByCall] = await Promise.all([
+          gong.getTranscript(args.call_id),
+          getPartiesByCall(gong, [args.call_id]),
+        ]);
+        if (!transcript) {
+          return toolError("Error getting transcript", new Error(`No transcript for call ${args.call_id}. ${notFound}`));
+        }
+        const speakers = resolveSpeakers(transcript, partiesByCall.get(args.call_id));
+
+        const entries = filterTranscript(transcript, {
+          startMs: params.start_seconds !== undefined ? params.start_seconds * 1000 : undefined,
+          endMs: params.end_seconds !== undefined ? params.end_seconds * 1000 : undefined,
+          topic: params.topic,
+          speakerIds: params.speaker ? matchSpeakers(speakers, params.speaker) : undefined,
+        });
+        const chunks = chunkTranscript(entries, maxChars, (entry) => formatTranscript([entry], speakers, format).length + 2);
+        const chunk = chunks[chunkIndex];
+
+        const allSentences = transcript.transcript.flatMap((entry) => entry.sentences);
+        const callEndMs = allSentences.length > 0 ? Math.max(...allSentences.map((s) => s.end)) : 0;
+        const filteredSentenceCount = entries.reduce((sum, entry) => sum + entry.sentences.length, 0);
+
+        const nextToken = chunkIndex + 1 < chunks.length
+          ? encodeContinuationToken({ ...params, chunk: chunkIndex + 1 })
+          : undefined;
 
         return {
           content: [
@@ -267,8 +417,40 @@ export function createGongMcpServer(gong: GongClient): McpServer {
               text: JSON.stringify(
                 {
                   call_id: transcript.callId,
-                  transcript_raw: transcript.transcript,
-                  transcript_formatted: formattedTranscript,
+                  speakers: [...speakers.values()].map((speaker) => ({
+                    speaker_id: speaker.speakerId,
+                    label: speaker.label,
+                    name: speaker.name,
+                    title: speaker.title,
+                    email: speaker.email,
+                    affiliation: speaker.affiliation,
+                  })),
+                  available_topics: [...new Set(transcript.transcript.map((e) => e.topic).filter(Boolean))],
+                  filters: {
+                    start_seconds: params.start_seconds,
+                    end_seconds: params.end_seconds,
+                    topic: params.topic,
+                    speaker: params.speaker,
+                  },
+                  chunk: chunk
+                    ? {
+                        number: chunkIndex + 1,
+                        total_chunks: chunks.length,
+                        start_time: formatClock(chunk.startMs),
+                        end_time: formatClock(chunk.endMs),
+                        sentences: `${chunk.firstSentence + 1}-${chunk.lastSentence + 1} of ${filteredSentenceCount}`,
+                        percent_of_call: callEndMs > 0 ? Math.round((chunk.endMs / callEndMs) * 100) : undefined,
+                        call_duration: formatClock(callEndMs),
+                      }
+                    : { number: chunkIndex + 1, total_chunks: chunks.length, note: "No sentences match these filters" },
+                  transcript_raw: output !== "formatted"
+                    ? chunk?.entries.map((entry) => ({ ...entry, speaker: speakers.get(entry.speakerId)?.label }))
+                    : undefined,
+                  format: output !== "raw" ? format : undefined,
+                  transcript_formatted: output !== "raw" && chunk
+                    ? formatTranscript(chunk.entries, speakers, format, { firstCueNumber: chunk.firstSentence + 1 })
+                    : undefined,
+                  continuation_token: nextToken,
                 },
                 null,
                 2
@@ -277,25 +459,51 @@ export function createGongMcpServer(gong: GongClient): McpServer {
           ],
         };
       } catch (error) {
-        return {
-          content: [{ type: "text" as const, text: `Error getting transcript: ${error}` }],
-          isError: true,
-        };
+        return toolError("Error getting transcript", error, { notFound });
       }
     }
   );
 
-  // ============ USER TOOLS ============
-
   server.tool(
-    "gong_list_users",
-    "List all users in the Gong workspace. Useful for finding user IDs to filter calls by rep.",
+    "gong_get_transcripts",
+    "Get formatted transcripts for several calls at once (e.g. for an account review). Output is capped by a total character budget; calls that don't fit are listed so they can be fetched in a follow-up request.",
     {
-      cursor: z.string().optional().describe("Pagination cursor from previous response"),
+      call_ids: z.array(z.string()).describe("Array of Gong call IDs"),
+      max_total_chars: z.number().optional().describe("Total character budget across all transcripts. Defaults to 150000."),
+      format: TRANSCRIPT_FORMAT_PARAM,
     },
-    async ({ cursor }) => {
+    async ({ call_ids, max_total_chars, format }) => {
       try {
-        const result = await gong.listUsers(cursor);
+        const budget = max_total_chars || 150_000;
+        const [transcripts, partiesByCall] = await Promise.all([
+          gong.getTranscripts(call_ids),
+          getPartiesByCall(gong, call_ids),
+        ]);
+        const foundIds = new Set(transcripts.map((t) => t.callId));
+
+        const included: { call_id: string; transcript_formatted: string; truncated: boolean }[] = [];
+        const omittedCallIds: string[] = [];
+        let remaining = budget;
+
+        for (const transcript of transcripts) {
+          const speakers = resolveSpeakers(transcript, partiesByCall.get(transcript.callId));
+          const formatted = formatTranscript(transcript.transcript, speakers, format);
+
+          if (remaining <= 0) {
+            omittedCallIds.push(transcript.callId);
+          } else if (formatted.length <= remaining) {
+            included.push({ call_id: transcript.callId, transcript_formatted: formatted, truncated: false });
+            remaining -= formatted.length;
+          } else {
+            // Partially include the transcript that crosses the budget, then stop
+            included.push({
+              call_id: transcript.callId,
+              transcript_formatted: formatted.slice(0, remaining),
+              truncated: true,
+            });
+            remaining = 0;
+          }
+        }
 
         return {
           content: [
@@ -303,16 +511,10 @@ export function createGongMcpServer(gong: GongClient): McpServer {
               type: "text" as const,
               text: JSON.stringify(
                 {
-                  users: result.records.map((user) => ({
-                    id: user.id,
-                    email: user.emailAddress,
-                    name: `${user.firstName} ${user.lastName}`,
-                    title: user.title,
-                    active: user.active,
-                    manager_id: user.managerId,
-                  })),
-                  next_cursor: result.cursor,
-                  total_records: result.totalRecords,
+                  transcripts: included,
+                  omitted_call_ids: omittedCallIds,
+                  missing_call_ids: call_ids.filter((id) => !foundIds.has(id)),
+                  total_chars: budget - remaining,
                 },
                 null,
                 2
@@ -321,74 +523,203 @@ export function createGongMcpServer(gong: GongClient): McpServer {
           ],
         };
       } catch (error) {
-        return {
-          content: [{ type: "text" as const, text: `Error listing users: ${error}` }],
-          isError: true,
-        };
+        return toolError("Error getting transcripts", error);
       }
     }
   );
 
   server.tool(
-    "gong_get_user_stats",
-    "Get aggregated activity statistics for users over a date range. Includes call counts, talk time, etc.",
+    "gong_search_transcripts",
+    "Full-text search inside call transcripts (what was actually said). Supports \"exact phrases\", AND and OR (e.g. '\"New Relic\" OR Datadog'). Returns matching sentences with surrounding context, speaker, timestamp and a link into the call. Scans calls in a date range (most recent first) or a given set of call IDs.",
     {
-      from_date: z.string().describe("Start date in YYYY-MM-DD format"),
-      to_date: z.string().describe("End date in YYYY-MM-DD format"),
-      user_ids: z.array(z.string()).optional().describe("Optional list of user IDs to filter by"),
+      query: z.string().describe('Search query. Quote phrases ("new relic"); combine with AND / OR. Terms without an operator are AND-ed.'),
+      call_ids: z.array(z.string()).optional().describe("Search only these calls instead of a date range"),
+      from_date: z.string().optional().describe("Start date in ISO format. Defaults to 30 days ago."),
+      to_date: z.string().optional().describe("End date in ISO format. Defaults to now."),
+      case_sensitive: z.boolean().optional().describe("Match case exactly. Defaults to false."),
+      whole_word: z.boolean().optional().describe("Only match whole words. Defaults to true."),
+      context_sentences: z.number().optional().describe("Sentences of context before and after each match. Defaults to 1."),
+      max_transcripts: z.number().optional().describe("Maximum transcripts to scan. Defaults to 50, capped at 200."),
+      page_size: z.number().optional().describe("Matches per page. Defaults to 20."),
+      cursor: z.string().optional().describe("Pagination cursor from previous response. The calls searched are carried in the cursor; pass the same query."),
     },
-    async ({ from_date, to_date, user_ids }) => {
+    async ({
+      query,
+      call_ids,
+      from_date,
+      to_date,
+      case_sensitive,
+      whole_word,
+      context_sentences,
+      max_transcripts,
+      page_size,
+      cursor,
+    }) => {
       try {
-        const stats = await gong.getUserStats({
-          fromDate: from_date,
-          toDate: to_date,
-          userIds: user_ids,
+        const parsedQuery = parseSearchQuery(query);
+        if (parsedQuery.length === 0) {
+          return toolError("Error searching transcripts", new Error("Query has no search terms"));
+        }
+
+        const pageSize = page_size || 20;
+        const scan: ScanCursor = cursor
+          ? decodeScanCursor(cursor)
+          : {
+              offset: 0,
+              ...(await selectCallsToScan(gong, {
+                callIds: call_ids,
+                fromDate: from_date,
+                toDate: to_date,
+                max: Math.min(max_transcripts || 50, 200),
+              })),
+            };
+        const { callIds, callsInScope, effectiveRange, offset } = scan;
+
+        const [calls, transcripts] = callIds.length > 0
+          ? await Promise.all([gong.getCallsExtensive(callIds), gong.getTranscripts(callIds)])
+          : [[], []];
+        const callsById = new Map(calls.map((call) => [call.id, call]));
+        const transcriptsById = new Map(transcripts.map((t) => [t.callId, t]));
+
+        const matches = callIds.flatMap((callId) => {
+          const transcript = transcriptsById.get(callId);
+          if (!transcript) return [];
+          const call = callsById.get(callId);
+          const speakers = resolveSpeakers(transcript, call?.parties);
+
+          return searchTranscript(transcript, parsedQuery, {
+            caseSensitive: case_sensitive,
+            wholeWord: whole_word,
+            contextSentences: context_sentences ?? 1,
+          }).map((match) => {
+            const speaker = speakers.get(match.speakerId);
+            return {
+              call_id: callId,
+              call_title: call?.title,
+              call_date: call?.started,
+              speaker: speaker?.name ?? speaker?.label,
+              speaker_affiliation: speaker?.affiliation,
+              timestamp: formatClock(match.startMs),
+              start_seconds: Math.floor(match.startMs / 1000),
+              topic: match.topic,
+              sentence: match.sentence,
+              matched_terms: match.matchedTerms,
+              context_before: match.contextBefore,
+              context_after: match.contextAfter,
+              link: call?.url ? callDeepLink(call.url, match.startMs) : undefined,
+            };
+          });
         });
 
+        const page = matches.slice(offset, offset + pageSize);
+        const nextOffset = offset + page.length;
+
         return {
           content: [
             {
               type: "text" as const,
-              text: JSON.stringify({ user_stats: stats }, null, 2),
+              text: JSON.stringify(
+                {
+                  search_info: {
+                    query,
+                    parsed_query: parsedQuery
+                      .map((group) => group.map((term) => (/\s/.test(term) ? `"${term}"` : term)).join(" AND "))
+                      .join(" OR "),
+                    date_range: effectiveRange,
+                    calls_in_scope: callsInScope,
+                    transcripts_scanned: transcripts.length,
+                    scan_capped: callsInScope > callIds.length,
+                    calls_with_matches: new Set(matches.map((m) => m.call_id)).size,
+                    total_matches: matches.length,
+                  },
+                  matches: page,
+                  // Only meaningful for an explicit call_ids list; a date range picks calls Gong returned
+                  missing_call_ids: effectiveRange ? undefined : callIds.filter((id) => !transcriptsById.has(id)),
+                  next_cursor: nextOffset < matches.length ? encodeScanCursor({ ...scan, offset: nextOffset }) : undefined,
+                },
+                null,
+                2
+              ),
             },
           ],
         };
       } catch (error) {
-        return {
-          content: [{ type: "text" as const, text: `Error getting user stats: ${error}` }],
-          isError: true,
-        };
+        return toolError("Error searching transcripts", error, {
+          notFound: "No calls or transcripts found for this date range or call set. Try widening from_date/to_date.",
+        });
       }
     }
   );
 
-  // ============ CRM / DEAL TOOLS ============
-
   server.tool(
-    "gong_get_calls_for_account",
-    "Get all calls associated with a specific CRM account or deal. Useful for account research.",
+    "gong_get_tracker_excerpts",
+    "Show what was actually said at each occurrence of a Gong tracker (e.g. Competitors, Pricing objections). Aligns tracker hits to the transcript and returns the sentence with surrounding context, speaker, timestamp and a link into the call. Scans a given set of calls or the most recent calls in a date range.",
     {
-      object_type: z.enum(["Account", "Deal", "Lead", "Contact"]).describe("Type of CRM object"),
-      object_ids: z.array(z.string()).describe("CRM object IDs (e.g., Salesforce Account IDs)"),
-      from_date: z.string().optional().describe("Start date in ISO format"),
-      to_date: z.string().optional().describe("End date in ISO format"),
+      tracker: z.string().describe("Tracker ID, or tracker name (case-insensitive, partial match)"),
+      call_ids: z.array(z.string()).optional().describe("Look only at these calls instead of a date range"),
+      from_date: z.string().optional().describe("Start date in ISO format. Defaults to 30 days ago."),
+      to_date: z.string().optional().describe("End date in ISO format. Defaults to now."),
+      context_seconds: z.number().optional().describe("Seconds of conversation to include before and after each occurrence. Defaults to 15."),
+      max_calls: z.number().optional().describe("Maximum calls to scan. Defaults to 50, capped at 200."),
+      page_size: z.number().optional().describe("Excerpts per page. Defaults to 20."),
+      cursor: z.string().optional().describe("Pagination cursor from previous response. The calls scanned are carried in the cursor; pass the same tracker."),
     },
-    async ({ object_type, object_ids, from_date, to_date }) => {
+    async ({ tracker, call_ids, from_date, to_date, context_seconds, max_calls, page_size, cursor }) => {
       try {
-        const links = await gong.getCallsByCrmObject({
-          objectType: object_type,
-          objectIds: object_ids,
-          fromDateTime: from_date,
-          toDateTime: to_date,
-        });
+        const pageSize = page_size || 20;
+        const scan: ScanCursor = cursor
+          ? decodeScanCursor(cursor)
+          : {
+              offset: 0,
+              ...(await selectCallsToScan(gong, {
+                callIds: call_ids,
+                fromDate: from_date,
+                toDate: to_date,
+                max: Math.min(max_calls || 50, 200),
+              })),
+            };
+        const { callIds, callsInScope, effectiveRange, offset } = scan;
 
-        // Get detailed call info for all linked calls
-        const allCallIds = links.flatMap((l) => l.calls.map((c) => c.callId));
+        // Only fetch transcripts for calls where the tracker actually fired
+        const calls = callIds.length > 0 ? await gong.getCallsExtensive(callIds) : [];
+        const trackersByCall = new Map(
+          calls
+            .map((call) => [call, matchTrackers(call, tracker)] as const)
+            .filter(([, trackers]) => trackers.some((t) => (t.occurrences ?? []).length > 0))
+            .map(([call, trackers]) => [call.id, { call, trackers }])
+        );
+        const transcripts = trackersByCall.size > 0 ? await gong.getTranscripts([...trackersByCall.keys()]) : [];
+        const transcriptsById = new Map(transcripts.map((t) => [t.callId, t]));
 
-        let callDetails: Awaited<ReturnType<typeof gong.getCallsExtensive>> = [];
-        if (allCallIds.length > 0) {
-          callDetails = await gong.getCallsExtensive(allCallIds);
-        }
+        const excerpts = [...trackersByCall.values()]
+          .sort((a, b) => b.call.started.localeCompare(a.call.started))
+          .flatMap(({ call, trackers }) => {
+            const transcript = transcriptsById.get(call.id);
+            if (!transcript) return [];
+            const speakers = resolveSpeakers(transcript, call.parties);
+
+            return extractTrackerExcerpts(transcript, trackers, (context_seconds ?? 15) * 1000).map((excerpt) => {
+              const speaker = speakers.get(excerpt.speakerId);
+              return {
+                call_id: call.id,
+                call_title: call.title,
+                call_date: call.started,
+                tracker: excerpt.trackerName,
+                speaker: speaker?.name ?? speaker?.label,
+                speaker_affiliation: speaker?.affiliation,
+                timestamp: formatClock(excerpt.startMs),
+                start_seconds: Math.floor(excerpt.startMs / 1000),
+                sentence: excerpt.sentence,
+                context_before: excerpt.contextBefore,
+                context_after: excerpt.contextAfter,
+                link: call.url ? callDeepLink(call.url, excerpt.startMs) : undefined,
+              };
+            });
+          });
+
+        const page = excerpts.slice(offset, offset + pageSize);
+        const nextOffset = offset + page.length;
+        const matchedTrackers = new Set([...trackersByCall.values()].flatMap(({ trackers }) => trackers.map((t) => t.name)));
 
         return {
           content: [
@@ -396,23 +727,22 @@ export function createGongMcpServer(gong: GongClient): McpServer {
               type: "text" as const,
               text: JSON.stringify(
                 {
-                  crm_objects: links.map((link) => ({
-                    object_id: link.objectId,
-                    call_count: link.calls.length,
-                    calls: link.calls.map((c) => {
-                      const detail = callDetails.find((d) => d.id === c.callId);
-                      return {
-                        call_id: c.callId,
-                        title: detail?.title,
-                        date: detail?.started,
-                        duration_seconds: detail?.duration,
-                        participants: detail?.parties?.map((p) => ({
-                          name: p.name,
-                          affiliation: p.affiliation,
-                        })),
-                      };
-                    }),
-                  })),
+                  search_info: {
+                    tracker,
+                    matched_trackers: [...matchedTrackers],
+                    // Help the model correct a misspelt tracker name
+                    available_trackers: matchedTrackers.size === 0
+                      ? [...new Set(calls.flatMap((call) => (call.content?.trackers ?? []).map((t) => t.name)))]
+                      : undefined,
+                    date_range: effectiveRange,
+                    calls_in_scope: callsInScope,
+                    calls_scanned: calls.length,
+                    scan_capped: callsInScope > callIds.length,
+                    calls_with_occurrences: trackersByCall.size,
+                    total_occurrences: excerpts.length,
+                  },
+                  excerpts: page,
+                  next_cursor: nextOffset < excerpts.length ? encodeScanCursor({ ...scan, offset: nextOffset }) : undefined,
                 },
                 null,
                 2
@@ -421,29 +751,34 @@ export function createGongMcpServer(gong: GongClient): McpServer {
           ],
         };
       } catch (error) {
-        return {
-          content: [{ type: "text" as const, text: `Error getting calls for CRM object: ${error}` }],
-          isError: true,
-        };
+        return toolError("Error getting tracker excerpts", error, {
+          notFound: "No calls found for this date range or call set. Try widening from_date/to_date.",
+        });
       }
     }
   );
 
+  // ============ ANALYTICS TOOLS ============
+
   server.tool(
-    "gong_list_deals",
-    "List deals/opportunities synced from CRM. Shows deal stage, amount, close date.",
+    "gong_get_call_analytics",
+    "Conversation analytics computed from call transcripts: per-speaker talk time and talk ratio, internal vs external share, longest monologue, interactivity (speaker switches per minute), questions asked by each side and patience (pause before a rep responds). Returns metrics per call plus an aggregate with a per-rep rollup for comparing reps.",
     {
-      from_date: z.string().optional().describe("Start date in ISO format"),
-      to_date: z.string().optional().describe("End date in ISO format"),
-      cursor: z.string().optional().describe("Pagination cursor from previous response"),
+      call_ids: z.array(z.string()).min(1).describe("Gong call IDs to analyze"),
+      include_per_call: z.boolean().optional().describe("Include per-call breakdowns, not just the aggregate. Defaults to true."),
     },
-    async ({ from_date, to_date, cursor }) => {
+    async ({ call_ids, include_per_call }) => {
       try {
-        const result = await gong.listDeals({
-          fromDateTime: from_date,
-          toDateTime: to_date,
-          cursor,
+        const [calls, transcripts] = await Promise.all([gong.getCallsExtensive(call_ids), gong.getTranscripts(call_ids)]);
+        const callsById = new Map(calls.map((call) => [call.id, call]));
+
+        const analytics = transcripts.map((transcript) => {
+          const call = callsById.get(transcript.callId);
+          const speakers = resolveSpeakers(transcript, call?.parties);
+          return analyzeCall(transcript, speakers, call?.duration ? call.duration * 1000 : undefined);
         });
+        const aggregate = aggregateAnalytics(analytics);
+        const foundIds = new Set(transcripts.map((t) => t.callId));
 
         return {
           content: [
@@ -451,18 +786,55 @@ export function createGongMcpServer(gong: GongClient): McpServer {
               type: "text" as const,
               text: JSON.stringify(
                 {
-                  deals: result.records.map((deal) => ({
-                    id: deal.id,
-                    title: deal.title,
-                    account: deal.account,
-                    stage: deal.stage,
-                    status: deal.status,
-                    amount: deal.amount,
-                    close_date: deal.closeDate,
-                    url: deal.url,
-                  })),
-                  next_cursor: result.cursor,
-                  total_records: result.totalRecords,
+                  aggregate: {
+                    calls_analyzed: aggregate.calls,
+                    total_duration: formatClock(aggregate.totalDurationMs),
+                    talk_share_percent: bySide(aggregate.share, percent),
+                    avg_interactivity: round(aggregate.interactivity, 1),
+                    questions: bySide(aggregate.questions),
+                    avg_patience_seconds: seconds(aggregate.patienceMs),
+                    reps: aggregate.reps.map((rep) => ({
+                      name: rep.speaker.name ?? rep.speaker.label,
+                      user_id: rep.speaker.userId,
+                      email: rep.speaker.email,
+                      calls: rep.calls,
+                      avg_talk_ratio_percent: percent(rep.talkRatio),
+                      longest_monologue_seconds: seconds(rep.longestMonologueMs),
+                      avg_interactivity: round(rep.interactivity, 1),
+                      questions_asked: rep.questions,
+                      avg_patience_seconds: seconds(rep.patienceMs),
+                    })),
+                  },
+                  calls: include_per_call === false
+                    ? undefined
+                    : analytics.map((result) => {
+                        const call = callsById.get(result.callId);
+                        return {
+                          call_id: result.callId,
+                          title: call?.title,
+                          started: call?.started,
+                          duration: formatClock(result.durationMs),
+                          talk_share_percent: bySide(result.share, percent),
+                          speakers: result.speakers.map((s) => ({
+                            speaker: s.speaker.label,
+                            affiliation: s.speaker.affiliation,
+                            talk_time_seconds: seconds(s.talkMs),
+                            talk_ratio_percent: percent(s.talkRatio),
+                            longest_monologue_seconds: seconds(s.longestMonologueMs),
+                            questions: s.questions,
+                          })),
+                          longest_monologue: result.longestMonologue && {
+                            speaker: result.longestMonologue.speaker.label,
+                            start_time: formatClock(result.longestMonologue.startMs),
+                            seconds: seconds(result.longestMonologue.durationMs),
+                            link: call?.url ? callDeepLink(call.url, result.longestMonologue.startMs) : undefined,
+                          },
+                          interactivity: round(result.interactivity, 1),
+                          questions: bySide(result.questions),
+                          patience_seconds: seconds(result.patienceMs),
+                        };
+                      }),
+                  missing_call_ids: call_ids.filter((id) => !foundIds.has(id)),
                 },
                 null,
                 2
@@ -471,31 +843,22 @@ export function createGongMcpServer(gong: GongClient): McpServer {
           ],
         };
       } catch (error) {
-        return {
-          content: [{ type: "text" as const, text: `Error listing deals: ${error}` }],
-          isError: true,
-        };
+        return toolError("Error computing call analytics", error);
       }
     }
   );
 
-  // ============ EMAIL TOOLS ============
+  // ============ USER TOOLS ============
 
   server.tool(
-    "gong_list_emails",
-    "List emails captured by Gong's email integration. Shows subject, participants, direction.",
+    "gong_list_users",
+    "List all users in the Gong workspace. Useful for finding user IDs to filter calls by rep.",
     {
-      from_date: z.string().optional().describe("Start date in ISO format"),
-      to_date: z.string().optional().describe("End date in ISO format"),
       cursor: z.string().optional().describe("Pagination cursor from previous response"),
     },
-    async ({ from_date, to_date, cursor }) => {
+    async ({ cursor }) => {
       try {
-        const result = await gong.listEmails({
-          fromDateTime: from_date,
-          toDateTime: to_date,
-          cursor,
-        });
+        const result = await gong.listUsers(cursor);
 
         return {
           content: [
@@ -503,14 +866,13 @@ export function createGongMcpServer(gong: GongClient): McpServer {
               type: "text" as const,
               text: JSON.stringify(
                 {
-                  emails: result.records.map((email) => ({
-                    id: email.id,
-                    subject: email.subject,
-                    from: email.fromEmailAddress,
-                    to: email.toEmailAddresses,
-                    cc: email.ccEmailAddresses,
-                    sent_time: email.sentTime,
-                    direction: email.direction,
+                  users: result.records.map((user) => ({
+                    id: user.id,
+                    email: user.emailAddress,
+                    name: fullName(user),
+                    title: user.title,
+                    active: user.active,
+                    manager_id: user.managerId,
                   })),
                   next_cursor: result.cursor,
                   total_records: result.totalRecords,
@@ -522,40 +884,1466 @@ export function createGongMcpServer(gong: GongClient): McpServer {
           ],
         };
       } catch (error) {
-        return {
-          content: [{ type: "text" as const, text: `Error listing emails: ${error}` }],
-          isError: true,
-        };
+        return toolError("Error listing users", error);
       }
     }
   );
 
-  // ============ LIBRARY TOOLS ============
-
   server.tool(
-    "gong_list_library_folders",
-    "List saved call folders in the Gong library. Useful for finding curated collections of calls.",
-    {},
-    async () => {
+    "gong_find_users",
+    "Find Gong users by name or email with fuzzy matching (tolerates typos and partial names) across the whole user list. Use this to resolve a person to a user ID.",
+    {
+      query: z.string().describe("Name, partial name, email or user ID, e.g. 'Dana', 'priya shah', 'dana.rivera@'"),
+      include_inactive: z.boolean().optional().describe("Include deactivated users. Defaults to true."),
+      limit: z.number().optional().describe("Maximum matches to return. Defaults to 10."),
+    },
+    async ({ query, include_inactive, limit }) => {
       try {
-        const folders = await gong.listLibraryFolders();
+        const users = await getAllUsers(gong);
+        const matches = findUsers(users, query)
+          .filter(({ user }) => include_inactive !== false || user.active)
+          .slice(0, limit || 10);
 
         return {
           content: [
             {
               type: "text" as const,
-              text: JSON.stringify({ folders }, null, 2),
+              text: JSON.stringify(
+                {
+                  query,
+                  users_searched: users.length,
+                  matches: matches.map(({ user, score }) => ({
+                    ...userSummary(user),
+                    manager_id: user.managerId,
+                    score: round(score, 2),
+                  })),
+                },
+                null,
+                2
+              ),
             },
           ],
         };
       } catch (error) {
-        return {
-          content: [{ type: "text" as const, text: `Error listing library folders: ${error}` }],
-          isError: true,
-        };
+        return toolError("Error finding users", error);
       }
     }
   );
 
-  return server;
+  server.tool(
+    "gong_get_team",
+    "Get a manager's direct and indirect reports as an org tree, with each user's title and active/inactive status. Accepts the manager's user ID, name or email.",
+    {
+      manager: z.string().describe("Manager's user ID, name or email"),
+      max_depth: z.number().optional().describe("Levels of reports to include (1 = direct reports only). Defaults to all levels."),
+    },
+    async ({ manager, max_depth }) => {
+      try {
+        const users = await getAllUsers(gong);
+        const root = resolveManager(users, manager);
+
+        const tree = buildTeamTree(users, root.id, max_depth ?? Infinity)!;
+        const members = flattenTeam(tree).slice(1);
+        const toNode = (node: TeamNode): Record<string, unknown> => ({
+          ...userSummary(node.user),
+          direct_reports: node.reports.length,
+          reports: node.reports.length > 0 ? node.reports.map(toNode) : undefined,
+        });
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  manager: userSummary(root),
+                  summary: {
+                    direct_reports: tree.reports.length,
+                    total_reports: members.length,
+                    active_reports: members.filter((user) => user.active).length,
+                    inactive_reports: members.filter((user) => !user.active).length,
+                  },
+                  team: toNode(tree),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return toolError("Error getting team", error);
+      }
+    }
+  );
+
+  server.tool(
+    "gong_get_user_stats",
+    "Get aggregated activity statistics for users over a date range. Includes call counts, talk time, etc.",
+    {
+      from_date: z.string().describe("Start date in YYYY-MM-DD format"),
+      to_date: z.string().describe("End date in YYYY-MM-DD format"),
+      user_ids: z.array(z.string()).optional().describe("Optional list of user IDs to filter by"),
+    },
+    async ({ from_date, to_date, user_ids }) => {
+      try {
+        const stats = await gong.getUserStats({
+          fromDate: from_date,
+          toDate: to_date,
+          userIds: user_ids,
+        });
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({ user_stats: stats }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return toolError("Error getting user stats", error, {
+          validation: "Check date format: from_date and to_date must be YYYY-MM-DD.",
+        });
+      }
+    }
+  );
+
+  server.tool(
+    "gong_get_activity_trends",
+    "Per-user activity over time (calls hosted, calls attended, feedback, listening...) from Gong's day-by-day stats, bucketed daily, weekly or monthly for trend charts. Returns a table (columns + rows) or CSV, plus team totals per period.",
+    {
+      from_date: z.string().describe("Start date in YYYY-MM-DD format"),
+      to_date: z.string().describe("End date in YYYY-MM-DD format"),
+      user_ids: z.array(z.string()).optional().describe("Optional list of user IDs to filter by"),
+      granularity: z.enum(["daily", "weekly", "monthly"]).optional().describe("Bucket size. Weeks start on Monday. Defaults to weekly."),
+      activities: z.array(z.string()).optional().describe("Only include these activities, e.g. ['callsAsHost', 'callsAttended']. Defaults to all."),
+      output: z.enum(["table", "csv"]).optional().describe("table = JSON columns and rows (default), csv = CSV text"),
+    },
+    async ({ from_date, to_date, user_ids, granularity, activities, output }) => {
+      try {
+        const entries: GongUserDailyActivity[] = [];
+        for await (const entry of gong.iterateDayByDayStats(
+          { fromDate: from_date, toDate: to_date, userIds: user_ids },
+          { maxPages: 50 }
+        )) {
+          entries.push(entry);
+        }
+        const users = await getAllUsers(gong);
+        const usersById = new Map(users.map((user) => [user.id, user]));
+
+        const bucketed = bucketActivity(entries, { fromDate: from_date, toDate: to_date, granularity: granularity ?? "weekly" });
+        const columns = activities?.length ? bucketed.activities.filter((a) => activities.includes(a)) : bucketed.activities;
+        const header = ["period_start", "user_id", "user_name", ...columns];
+        const rows = bucketed.rows
+          .map((row) => {
+            const user = usersById.get(row.userId);
+            return [row.bucket, row.userId, user ? fullName(user) : undefined, ...columns.map((c) => row.counts[c])];
+          })
+          .sort((a, b) => String(a[0]).localeCompare(String(b[0])) || String(a[2] ?? a[1]).localeCompare(String(b[2] ?? b[1])));
+
+        const totals = new Map<string, Record<string, number>>();
+        for (const row of bucketed.rows) {
+          const total = totals.get(row.bucket) ?? Object.fromEntries(columns.map((c) => [c, 0]));
+          for (const column of columns) total[column] += row.counts[column];
+          totals.set(row.bucket, total);
+        }
+
+        if (output === "csv") {
+          return { content: [{ type: "text" as const, text: toCsv(header, rows) }] };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  date_range: { from: from_date, to: to_date },
+                  granularity: granularity ?? "weekly",
+                  columns: header,
+                  rows,
+                  totals: [...totals].map(([period, counts]) => ({ period_start: period, ...counts })),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return toolError("Error getting activity trends", error, {
+          validation: "Check date format: from_date and to_date must be YYYY-MM-DD.",
+        });
+      }
+    }
+  );
+
+  server.tool(
+    "gong_get_interaction_stats",
+    "Get Gong's interaction stats per user over a date range: talk ratio, longest monologue, longest customer story, interactivity, patience and question rate. Users are joined to their names and titles.",
+    {
+      from_date: z.string().describe("Start date in YYYY-MM-DD format"),
+      to_date: z.string().describe("End date in YYYY-MM-DD format"),
+      user_ids: z.array(z.string()).optional().describe("Optional list of user IDs to filter by"),
+    },
+    async ({ from_date, to_date, user_ids }) => {
+      try {
+        const entries = await collectRecords(
+          gong.iterateInteractionStats({ fromDate: from_date, toDate: to_date, userIds: user_ids }, { maxPages: 50 })
+        );
+        const users = await getAllUsers(gong);
+        const usersById = new Map(users.map((user) => [user.id, user]));
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  date_range: { from: from_date, to: to_date },
+                  interaction_stats: entries
+                    .map(normalizeInteractionStats)
+                    .map((stats) => {
+                      const user = usersById.get(stats.userId);
+                      return {
+                        user_id: stats.userId,
+                        name: user ? fullName(user) : undefined,
+                        email: stats.email ?? user?.emailAddress,
+                        title: user?.title,
+                        talk_ratio_percent: stats.talkRatio !== undefined ? percent(stats.talkRatio) : undefined,
+                        longest_monologue_seconds: stats.longestMonologueSeconds,
+                        longest_customer_story_seconds: stats.longestCustomerStorySeconds,
+                        interactivity: stats.interactivity,
+                        patience_seconds: stats.patienceSeconds,
+                        question_rate: stats.questionRate,
+                        other: Object.keys(stats.other).length > 0 ? stats.other : undefined,
+                      };
+                    })
+                    .sort((a, b) => (a.name ?? a.user_id).localeCompare(b.name ?? b.user_id)),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return toolError("Error getting interaction stats", error, {
+          validation: "Check date format: from_date and to_date must be YYYY-MM-DD.",
+        });
+      }
+    }
+  );
+
+  server.tool(
+    "gong_get_team_stats",
+    "Roll up Gong activity stats (calls hosted/attended, feedback, scorecards, listening, sharing) over a manager's reporting tree: team and sub-team totals and per-rep averages, plus per-rep rankings. Optionally compares against another period (e.g. this quarter vs last) to show movement.",
+    {
+      manager: z.string().describe("Manager's user ID, name or email"),
+      from_date: z.string().describe("Start date in YYYY-MM-DD format"),
+      to_date: z.string().describe("End date in YYYY-MM-DD format"),
+      compare_from_date: z.string().optional().describe("Start of the comparison period, YYYY-MM-DD"),
+      compare_to_date: z.string().optional().describe("End of the comparison period, YYYY-MM-DD"),
+      compare_previous_period: z
+        .boolean()
+        .optional()
+        .describe("Compare against the period of equal length just before from_date. Ignored if compare dates are given."),
+      include_manager: z.boolean().optional().describe("Count the manager's own activity in the team rollup. Defaults to false."),
+      rank_by: z.enum(ACTIVITY_METRICS as [ActivityMetric, ...ActivityMetric[]]).optional().describe("Metric to sort reps by. Defaults to callsAsHost."),
+    },
+    async ({ manager, from_date, to_date, compare_from_date, compare_to_date, compare_previous_period, include_manager, rank_by }) => {
+      try {
+        const users = await getAllUsers(gong);
+        const root = resolveManager(users, manager);
+
+        const tree = buildTeamTree(users, root.id)!;
+        const userIds = flattenTeam(tree).map((user) => user.id);
+        const comparison = compare_from_date && compare_to_date
+          ? { fromDate: compare_from_date, toDate: compare_to_date }
+          : compare_previous_period
+            ? previousPeriod(from_date, to_date)
+            : undefined;
+
+        const [currentStats, previousStats] = await Promise.all([
+          gong.getUserStats({ fromDate: from_date, toDate: to_date, userIds }),
+          comparison ? gong.getUserStats({ ...comparison, userIds }) : undefined,
+        ]);
+        const options = { includeManager: include_manager };
+        const current = rollupTeam(tree, currentStats, options);
+        const previous = previousStats ? rollupTeam(tree, previousStats, options) : undefined;
+        const rankBy = rank_by ?? "callsAsHost";
+
+        const metricsOf = (rollup: TeamRollup, before?: TeamRollup) =>
+          Object.fromEntries(
+            Object.entries(rollup.metrics).map(([metric, value]) => {
+              const prior = before?.metrics[metric as ActivityMetric];
+              return [
+                metric,
+                {
+                  total: value.total,
+                  average: round(value.average, 1),
+                  ...(before && changeSummary(compareMetric(value.total, prior?.total))),
+                },
+              ];
+            })
+          );
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  manager: userSummary(root),
+                  date_range: { from: from_date, to: to_date },
+                  comparison_range: comparison && { from: comparison.fromDate, to: comparison.toDate },
+                  team: {
+                    reps_with_stats: current.team.members.length,
+                    metrics: metricsOf(current.team, previous?.team),
+                  },
+                  sub_teams: current.subTeams.map((subTeam) => ({
+                    manager: fullName(subTeam.manager),
+                    manager_id: subTeam.manager.id,
+                    reps_with_stats: subTeam.members.length,
+                    metrics: metricsOf(subTeam, previous?.subTeams.find((p) => p.manager.id === subTeam.manager.id)),
+                  })),
+                  ranked_by: rankBy,
+                  reps: [...current.reps]
+                    .sort((a, b) => (a.ranks[rankBy] ?? Infinity) - (b.ranks[rankBy] ?? Infinity))
+                    .map((rep) => {
+                      const before = previous?.reps.find((p) => p.user.id === rep.user.id);
+                      return {
+                        ...userSummary(rep.user),
+                        manager_id: rep.user.managerId,
+                        metrics: rep.metrics,
+                        ranks: rep.ranks,
+                        changes: previous
+                          ? Object.fromEntries(
+                              Object.entries(rep.metrics).map(([metric, value]) => [
+                                metric,
+                                changeSummary(compareMetric(value, before?.metrics[metric as ActivityMetric])),
+                              ])
+                            )
+                          : undefined,
+                      };
+                    }),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return toolError("Error getting team stats", error, {
+          validation: "Check date format: from_date, to_date and comparison dates must be YYYY-MM-DD.",
+        });
+      }
+    }
+  );
+
+  // ============ CRM / DEAL TOOLS ============
+
+  server.tool(
+    "gong_get_calls_for_account",
+    "Get all calls associated with a specific CRM account or deal. Useful for account research.",
+    {
+      object_type: z.enum(["Account", "Deal", "Lead", "Contact"]).describe("Type of CRM object"),
+      object_ids: z.array(z.string()).describe("CRM object IDs (e.g., Salesforce Account IDs)"),
+      from_date: z.string().optional().describe("Start date in ISO format"),
+      to_date: z.string().optional().describe("End date in ISO format"),
+    },
+    async ({ object_type, object_ids, from_date, to_date }) => {
+      try {
+        const links = await gong.getCallsByCrmObject({
+          objectType: object_type,
+          objectIds: object_ids,
+          fromDateTime: from_date,
+          toDateTime: to_date,
+        });
+
+        // Get detailed call info for all linked calls
+        const allCallIds = links.flatMap((l) => l.calls.map((c) => c.callId));
+
+        let callDetails: GongCall[] = [];
+        if (allCallIds.length > 0) {
+          callDetails = await gong.getCallsExtensive(allCallIds);
+        }
+        const detailsById = new Map(callDetails.map((d) => [d.id, d]));
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  crm_objects: links.map((link) => ({
+                    object_id: link.objectId,
+                    call_count: link.calls.length,
+                    calls: link.calls.map((c) => {
+                      const detail = detailsById.get(c.callId);
+                      return {
+                        call_id: c.callId,
+                        title: detail?.title,
+                        date: detail?.started,
+                        duration_seconds: detail?.duration,
+                        participants: detail?.parties?.map((p) => ({
+                          name: p.name,
+                          affiliation: p.affiliation,
+                        })),
+                      };
+                    }),
+                  })),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return toolError("Error getting calls for CRM object", error, {
+          notFound: "No calls are linked to these CRM object IDs. Check the object_type and IDs (e.g. Salesforce 18-char IDs).",
+        });
+      }
+    }
+  );
+
+  server.tool(
+    "gong_account_timeline",
+    "Chronological timeline of all engagement with an account: calls and emails merged, with participants, direction and topics, and gaps in engagement highlighted. Identify the account by CRM account ID, by customer email domain (e.g. acme.com), or both.",
+    {
+      account_id: z.string().optional().describe("CRM account ID (e.g. Salesforce Account ID)"),
+      domain: z.string().optional().describe("Customer email domain, e.g. acme.com"),
+      from_date: z.string().optional().describe("Start date in ISO format. Defaults to 90 days ago."),
+      to_date: z.string().optional().describe("End date in ISO format. Defaults to now."),
+      gap_days: z.number().optional().describe("Highlight stretches longer than this many days without a call or email. Defaults to 14."),
+    },
+    async ({ account_id, domain, from_date, to_date, gap_days }) => {
+      try {
+        if (!account_id && !domain) {
+          return toolError("Error building account timeline", new Error("Provide account_id, domain, or both"));
+        }
+
+        const now = new Date();
+        const range = {
+          from: from_date || new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000).toISOString(),
+          to: to_date || now.toISOString(),
+        };
+        const domains = new Set<string>();
+        if (domain) domains.add(domain.replace(/^@/, "").trim().toLowerCase());
+
+        // Calls: CRM-linked calls for the account, plus calls with participants from the domain
+        const callIds = new Set<string>();
+        if (account_id) {
+          const links = await gong.getCallsByCrmObject({
+            objectType: "Account",
+            objectIds: [account_id],
+            fromDateTime: range.from,
+            toDateTime: range.to,
+          });
+          for (const call of links.flatMap((link) => link.calls)) callIds.add(call.callId);
+        }
+        for (const d of [...domains]) {
+          const domainCalls = await collectRecords(
+            gong.iterateSearchCalls(
+              { fromDateTime: range.from, toDateTime: range.to, searchTerm: `@${d}` },
+              { maxPages: 20, maxRecords: 1000 }
+            )
+          );
+          for (const call of domainCalls) {
+            if (callInvolvesDomains(call, domains)) callIds.add(call.id);
+          }
+        }
+        const calls = callIds.size > 0 ? await gong.getCallsExtensive([...callIds]) : [];
+
+        // Emails aren't linked to accounts, so match them on the customer's contacts from the calls
+        const callContacts = externalContacts(calls);
+        for (const d of callContacts.domains) domains.add(d);
+        const contacts = { domains, addresses: callContacts.addresses };
+        const emails: GongEmail[] = [];
+        if (domains.size > 0 || contacts.addresses.size > 0) {
+          for await (const email of gong.iterateEmails(
+            { fromDateTime: range.from, toDateTime: range.to },
+            { maxPages: 20, maxRecords: 2000 }
+          )) {
+            if (emailInvolvesContacts(email, contacts)) emails.push(email);
+          }
+        }
+
+        const timeline = buildTimeline(calls, emails, { gapDays: gap_days ?? 14, until: range.to });
+        const touches = timeline.filter((item): item is TimelineTouch => item.type !== "gap");
+        const lastTouch = touches[touches.length - 1]?.at;
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  account: {
+                    account_id,
+                    domains: [...domains],
+                    contact_addresses: contacts.addresses.size > 0 ? [...contacts.addresses] : undefined,
+                  },
+                  date_range: range,
+                  summary: {
+                    calls: calls.length,
+                    emails: emails.length,
+                    inbound_emails: emails.filter((e) => e.direction === "Inbound").length,
+                    outbound_emails: emails.filter((e) => e.direction === "Outbound").length,
+                    first_activity: touches[0]?.at,
+                    last_activity: lastTouch,
+                    days_since_last_activity: lastTouch
+                      ? Math.floor((Date.parse(range.to) - Date.parse(lastTouch)) / (24 * 60 * 60 * 1000))
+                      : undefined,
+                    engagement_gaps: timeline.filter((item) => item.type === "gap").length,
+                  },
+                  timeline: timeline.map((item) => {
+                    if (item.type === "gap") {
+                      return { type: "gap", from: item.from, to: item.to, days_without_engagement: item.days };
+                    }
+                    if (item.type === "call") {
+                      const { call } = item;
+                      return {
+                        type: "call",
+                        date: call.started,
+                        call_id: call.id,
+                        title: call.title,
+                        duration_seconds: call.duration,
+                        direction: call.direction,
+                        participants: call.parties?.map((p) => ({
+                          name: p.name,
+                          email: p.emailAddress,
+                          affiliation: p.affiliation,
+                        })),
+                        topics: call.content?.topics?.map((t) => t.name),
+                        url: call.url,
+                      };
+                    }
+                    const { email } = item;
+                    return {
+                      type: "email",
+                      date: email.sentTime,
+                      email_id: email.id,
+                      subject: email.subject,
+                      direction: email.direction,
+                      from: email.fromEmailAddress,
+                      to: email.toEmailAddresses,
+                      cc: email.ccEmailAddresses,
+                    };
+                  }),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return toolError("Error building account timeline", error, {
+          notFound: "No calls or emails found for this account in the date range. Check the account ID or domain, or widen from_date/to_date.",
+        });
+      }
+    }
+  );
+
+  server.tool(
+    "gong_list_deals",
+    "List deals/opportunities synced from CRM. Shows deal stage, amount, close date.",
+    {
+      from_date: z.string().optional().describe("Start date in ISO format"),
+      to_date: z.string().optional().describe("End date in ISO format"),
+      cursor: z.string().optional().describe("Pagination cursor from previous response"),
+    },
+    async ({ from_date, to_date, cursor }) => {
+      try {
+        const result = await gong.listDeals({
+          fromDateTime: from_date,
+          toDateTime: to_date,
+          cursor,
+        });
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  deals: result.records.map((deal) => ({
+                    id: deal.id,
+                    title: deal.title,
+                    account: deal.account,
+                    owner_id: deal.ownerId,
+                    stage: deal.stage,
+                    status: deal.status,
+                    amount: deal.amount,
+                    close_date: deal.closeDate,
+                    url: deal.url,
+                  })),
+                  next_cursor: result.cursor,
+                  total_records: result.totalRecords,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return toolError("Error listing deals", error);
+      }
+    }
+  );
+
+  server.tool(
+    "gong_deal_brief",
+    "One-shot deal review: the deal record, all linked calls with external attendees, days since last contact, buyer-side contacts engaged (multithreading), trackers hit across calls and the latest call's topics.",
+    {
+      deal_id: z.string().describe("CRM deal/opportunity ID"),
+    },
+    async ({ deal_id }) => {
+      try {
+        let deal: GongDeal | undefined;
+        for await (const candidate of gong.iterateDeals({}, { maxPages: 50 })) {
+          if (candidate.id === deal_id) {
+            deal = candidate;
+            break;
+          }
+        }
+        if (!deal) {
+          return toolError("Error building deal brief", new Error(`Deal ${deal_id} not found. Use gong_list_deals to find deal IDs.`));
+        }
+
+        const links = await gong.getCallsByCrmObject({ objectType: "Deal", objectIds: [deal_id] });
+        const callIds = [...new Set(links.flatMap((link) => link.calls.map((c) => c.callId)))];
+        const engagement = summarizeDealEngagement(callIds.length > 0 ? await gong.getCallsExtensive(callIds) : []);
+
+        // Emails with the buyer's contacts since the first call also count as contact
+        const now = new Date().toISOString();
+        const contacts = externalContacts(engagement.calls);
+        let lastEmail: GongEmail | undefined;
+        if (contacts.domains.size > 0 || contacts.addresses.size > 0) {
+          for await (const email of gong.iterateEmails(
+            { fromDateTime: engagement.calls[0].started, toDateTime: now },
+            { maxPages: 20, maxRecords: 2000 }
+          )) {
+            if (emailInvolvesContacts(email, contacts) && (!lastEmail || email.sentTime > lastEmail.sentTime)) {
+              lastEmail = email;
+            }
+          }
+        }
+        const lastCallAt = engagement.latestCall?.started;
+        const lastContact = [lastCallAt, lastEmail?.sentTime].filter((at): at is string => !!at).sort().pop();
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  deal: {
+                    id: deal.id,
+                    title: deal.title,
+                    account: deal.account,
+                    owner_id: deal.ownerId,
+                    stage: deal.stage,
+                    status: deal.status,
+                    amount: deal.amount,
+                    close_date: deal.closeDate,
+                    url: deal.url,
+                  },
+                  engagement: {
+                    call_count: engagement.calls.length,
+                    last_call: lastCallAt,
+                    last_email: lastEmail?.sentTime,
+                    days_since_last_contact: lastContact ? daysBetween(lastContact, now) : undefined,
+                    buyer_contacts_engaged: engagement.buyerContacts.length,
+                  },
+                  buyer_contacts: engagement.buyerContacts.map((contact) => ({
+                    name: contact.name,
+                    email: contact.email,
+                    title: contact.title,
+                    calls_attended: contact.calls,
+                    first_seen: contact.firstSeen,
+                    last_seen: contact.lastSeen,
+                  })),
+                  trackers: engagement.trackers.map((tracker) => ({
+                    name: tracker.name,
+                    occurrences: tracker.occurrences,
+                    calls: tracker.calls,
+                  })),
+                  latest_call: engagement.latestCall && {
+                    call_id: engagement.latestCall.id,
+                    title: engagement.latestCall.title,
+                    date: engagement.latestCall.started,
+                    topics: engagement.latestCall.content?.topics?.map((t) => t.name),
+                  },
+                  calls: engagement.calls.map((call) => ({
+                    call_id: call.id,
+                    title: call.title,
+                    date: call.started,
+                    duration_seconds: call.duration,
+                    external_attendees: call.parties
+                      ?.filter((p) => p.affiliation === "External")
+                      .map((p) => ({ name: p.name, title: p.title, email: p.emailAddress })),
+                  })),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return toolError("Error building deal brief", error);
+      }
+    }
+  );
+
+  server.tool(
+    "gong_pipeline_risk",
+    "Pipeline risk report for open deals: flags deals with no calls, no call within an inactivity threshold, only one buyer-side contact ever on calls (single-threaded), or a near close date without a recent call. Results are grouped by stage, then owner.",
+    {
+      inactive_days: z.number().optional().describe("Flag deals with no call in this many days. Defaults to 30."),
+      close_window_days: z.number().optional().describe("Treat close dates within this many days (or overdue) as near. Defaults to 30."),
+      recent_call_days: z.number().optional().describe("A deal with a near close date needs a call within this many days. Defaults to 14."),
+      include_healthy: z.boolean().optional().describe("Also list open deals with no risk flags. Defaults to false."),
+      max_deals: z.number().optional().describe("Maximum open deals to assess. Defaults to 200, capped at 1000."),
+    },
+    async ({ inactive_days, close_window_days, recent_call_days, include_healthy, max_deals }) => {
+      try {
+        const maxDeals = Math.min(max_deals || 200, 1000);
+        const openDeals: GongDeal[] = [];
+        for await (const deal of gong.iterateDeals({}, { maxPages: 50 })) {
+          if (!isClosedDeal(deal)) openDeals.push(deal);
+          if (openDeals.length >= maxDeals) break;
+        }
+
+        const links = openDeals.length > 0
+          ? await gong.getCallsByCrmObject({ objectType: "Deal", objectIds: openDeals.map((d) => d.id) })
+          : [];
+        const callIdsByDeal = new Map(links.map((link) => [link.objectId, link.calls.map((c) => c.callId)]));
+        const allCallIds = [...new Set(links.flatMap((link) => link.calls.map((c) => c.callId)))];
+        const calls = allCallIds.length > 0 ? await gong.getCallsExtensive(allCallIds) : [];
+        const callsById = new Map(calls.map((call) => [call.id, call]));
+        const ownerNames = await getUserNames(gong, openDeals.flatMap((d) => (d.ownerId ? [d.ownerId] : [])));
+
+        const now = new Date().toISOString();
+        const options = {
+          inactiveDays: inactive_days ?? 30,
+          closeWindowDays: close_window_days ?? 30,
+          recentCallDays: recent_call_days ?? 14,
+          now,
+        };
+
+        const assessed = openDeals.map((deal) => {
+          const dealCalls = (callIdsByDeal.get(deal.id) ?? []).flatMap((id) => callsById.get(id) ?? []);
+          const engagement = summarizeDealEngagement(dealCalls);
+          return { deal, engagement, risks: assessDealRisk(deal, engagement, options) };
+        });
+        const reported = assessed.filter(({ risks }) => include_healthy || risks.length > 0);
+
+        // Group by stage, then by owner
+        const stages = new Map<string, Map<string, typeof reported>>();
+        for (const entry of reported) {
+          const stage = entry.deal.stage ?? "Unknown stage";
+          const owners = stages.get(stage) ?? new Map<string, typeof reported>();
+          const owner = entry.deal.ownerId ?? "unassigned";
+          owners.set(owner, [...(owners.get(owner) ?? []), entry]);
+          stages.set(stage, owners);
+        }
+
+        const countFlag = (flag: string) => assessed.filter(({ risks }) => risks.some((r) => r.flag === flag)).length;
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  summary: {
+                    open_deals_assessed: assessed.length,
+                    deals_at_risk: assessed.filter(({ risks }) => risks.length > 0).length,
+                    amount_at_risk: assessed
+                      .filter(({ risks }) => risks.length > 0)
+                      .reduce((sum, { deal }) => sum + (deal.amount ?? 0), 0),
+                    no_calls: countFlag("no_calls"),
+                    stale: countFlag("stale"),
+                    single_threaded: countFlag("single_threaded"),
+                    closing_without_recent_call: countFlag("closing_without_recent_call"),
+                    thresholds: {
+                      inactive_days: options.inactiveDays,
+                      close_window_days: options.closeWindowDays,
+                      recent_call_days: options.recentCallDays,
+                    },
+                  },
+                  stages: [...stages].map(([stage, owners]) => ({
+                    stage,
+                    owners: [...owners].map(([ownerId, entries]) => ({
+                      owner_id: ownerId,
+                      owner_name: ownerNames.get(ownerId),
+                      deals: entries.map(({ deal, engagement, risks }) => ({
+                        id: deal.id,
+                        title: deal.title,
+                        account: deal.account?.name,
+                        amount: deal.amount,
+                        close_date: deal.closeDate,
+                        call_count: engagement.calls.length,
+                        last_call: engagement.latestCall?.started,
+                        buyer_contacts: engagement.buyerContacts.length,
+                        risks,
+                      })),
+                    })),
+                  })),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return toolError("Error building pipeline risk report", error);
+      }
+    }
+  );
+
+  // ============ EMAIL TOOLS ============
+
+  server.tool(
+    "gong_list_emails",
+    "List emails captured by Gong's email integration. Shows subject, participants, direction. Filter by sender, recipient, participant domain and direction; optionally include plain-text bodies with quoted replies trimmed.",
+    {
+      from_date: z.string().optional().describe("Start date in ISO format"),
+      to_date: z.string().optional().describe("End date in ISO format"),
+      from: z.string().optional().describe("Sender email address (or part of it)"),
+      to: z.string().optional().describe("Recipient email address (or part of it), matched against To and Cc"),
+      domain: z.string().optional().describe("Only emails with a participant on this domain, e.g. acme.com"),
+      direction: z.enum(["Inbound", "Outbound"]).optional().describe("Only inbound or outbound emails"),
+      include_body: z.boolean().optional().describe("Include the plain-text body (new content only). Defaults to false."),
+      cursor: z.string().optional().describe("Pagination cursor from previous response"),
+    },
+    async ({ from_date, to_date, from, to, domain, direction, include_body, cursor }) => {
+      try {
+        const result = await gong.listEmails({
+          fromDateTime: from_date,
+          toDateTime: to_date,
+          cursor,
+        });
+        // Filters apply to the page, so a page may hold fewer emails while the cursor still advances
+        const emails = result.records.filter((email) => matchesEmailFilter(email, { from, to, domain, direction }));
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  emails: emails.map((email) => ({
+                    ...emailSummary(email),
+                    body: include_body ? normalizeEmailBody(email.body) : undefined,
+                  })),
+                  next_cursor: result.cursor,
+                  total_records: result.totalRecords,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return toolError("Error listing emails", error);
+      }
+    }
+  );
+
+  server.tool(
+    "gong_get_email",
+    "Get a single email with its body as plain text. By default quoted replies are trimmed so only the new content is returned.",
+    {
+      email_id: z.string().describe("Gong email ID (from gong_list_emails)"),
+      from_date: z.string().optional().describe("Start of the date range to look in, ISO format. Defaults to 90 days ago."),
+      to_date: z.string().optional().describe("End of the date range to look in, ISO format. Defaults to now."),
+      include_quoted: z.boolean().optional().describe("Keep quoted earlier messages in the body. Defaults to false."),
+    },
+    async ({ email_id, from_date, to_date, include_quoted }) => {
+      try {
+        const email = await findEmail(gong, email_id, from_date, to_date);
+        if (!email) {
+          return toolError(
+            "Error getting email",
+            new Error(`Email ${email_id} not found in the date range. Pass from_date/to_date around the email's sent time.`)
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                { ...emailSummary(email), body: normalizeEmailBody(email.body, { keepQuoted: include_quoted }) },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return toolError("Error getting email", error);
+      }
+    }
+  );
+
+  server.tool(
+    "gong_get_email_thread",
+    "Reconstruct an email thread (original message and replies) from an email ID or a subject. Messages are matched on subject (ignoring RE:/FW:) and shared participants, returned oldest first with plain-text bodies showing only each message's new content.",
+    {
+      email_id: z.string().optional().describe("Any email in the thread"),
+      subject: z.string().optional().describe("Thread subject, if no email ID is known"),
+      participant: z.string().optional().describe("With subject: only threads involving this email address or domain"),
+      from_date: z.string().optional().describe("Start date in ISO format. Defaults to 90 days ago."),
+      to_date: z.string().optional().describe("End date in ISO format. Defaults to now."),
+    },
+    async ({ email_id, subject, participant, from_date, to_date }) => {
+      try {
+        if (!email_id && !subject) {
+          return toolError("Error getting email thread", new Error("Provide email_id or subject"));
+        }
+
+        const now = new Date();
+        const range = {
+          from: from_date || new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000).toISOString(),
+          to: to_date || now.toISOString(),
+        };
+        const emails: GongEmail[] = [];
+        for await (const email of gong.iterateEmails(
+          { fromDateTime: range.from, toDateTime: range.to },
+          { maxPages: 20, maxRecords: 2000 }
+        )) {
+          emails.push(email);
+        }
+
+        const threads = groupThreads(emails).filter((thread) =>
+          email_id
+            ? thread.emails.some((email) => email.id === email_id)
+            : thread.subject.toLowerCase() === threadSubject(subject).toLowerCase() &&
+              (!participant || thread.participants.some((p) => p.includes(participant.toLowerCase())))
+        );
+        if (threads.length === 0) {
+          return toolError(
+            "Error getting email thread",
+            new Error("No matching thread in the date range. Check the email ID or subject, or widen from_date/to_date.")
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  threads: threads.map((thread) => ({
+                    subject: thread.subject,
+                    participants: thread.participants,
+                    message_count: thread.emails.length,
+                    messages: thread.emails.map((email) => ({ ...emailSummary(email), body: normalizeEmailBody(email.body) })),
+                  })),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return toolError("Error getting email thread", error);
+      }
+    }
+  );
+
+  // ============ SCORECARD TOOLS ============
+
+  server.tool(
+    "gong_list_scorecards",
+    "List Gong scorecard templates with their questions and score ranges. Use the IDs to filter answered scorecards.",
+    {
+      include_disabled: z.boolean().optional().describe("Include disabled scorecards. Defaults to false."),
+    },
+    async ({ include_disabled }) => {
+      try {
+        const scorecards = await gong.listScorecards();
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  scorecards: scorecards
+                    .filter((scorecard) => include_disabled || scorecard.enabled !== false)
+                    .map((scorecard) => ({
+                      id: scorecard.scorecardId,
+                      name: scorecard.scorecardName,
+                      enabled: scorecard.enabled,
+                      questions: scorecard.questions.map((q) => ({
+                        id: q.questionId,
+                        text: q.questionText,
+                        is_overall: q.isOverall,
+                        range: q.minRange !== undefined && q.maxRange !== undefined ? [q.minRange, q.maxRange] : undefined,
+                      })),
+                    })),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return toolError("Error listing scorecards", error);
+      }
+    }
+  );
+
+  server.tool(
+    "gong_get_answered_scorecards",
+    "Get answered scorecards (call reviews) filtered by call, reviewer, reviewed rep, scorecard and review date, with average scores per question and per rep. Useful for coaching reviews.",
+    {
+      from_date: z.string().optional().describe("Reviews on or after this date, YYYY-MM-DD. Defaults to 90 days ago."),
+      to_date: z.string().optional().describe("Reviews up to and including this date, YYYY-MM-DD. Defaults to today."),
+      call_ids: z.array(z.string()).optional().describe("Only scorecards for these calls"),
+      reviewer_ids: z.array(z.string()).optional().describe("Only scorecards filled in by these user IDs"),
+      reviewee_ids: z.array(z.string()).optional().describe("Only scorecards reviewing these user IDs (reps)"),
+      scorecard_ids: z.array(z.string()).optional().describe("Only these scorecard templates"),
+      max_results: z.number().optional().describe("Maximum answered scorecards to list (averages use all matches). Defaults to 50."),
+    },
+    async ({ from_date, to_date, call_ids, reviewer_ids, reviewee_ids, scorecard_ids, max_results }) => {
+      try {
+        const now = new Date();
+        const reviews = await collectRecords(
+          gong.iterateAnsweredScorecards(
+            {
+              reviewFromDate: from_date || new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+              reviewToDate: to_date || now.toISOString().slice(0, 10),
+              scorecardIds: scorecard_ids,
+              reviewedUserIds: reviewee_ids,
+            },
+            { maxPages: 50 }
+          )
+        );
+        // Gong can't filter by call or reviewer, so those filters apply locally
+        const answered = reviews.filter(
+          (scorecard) =>
+            (!call_ids || call_ids.includes(scorecard.callId)) &&
+            (!reviewer_ids || reviewer_ids.includes(scorecard.reviewerUserId))
+        );
+
+        const templates = await gong.listScorecards();
+        const questionText = new Map(templates.flatMap((t) => t.questions.map((q) => [q.questionId, q.questionText])));
+        const names = await getUserNames(gong, answered.flatMap((a) => [a.reviewedUserId, a.reviewerUserId]));
+        const listed = answered
+          .sort((a, b) => b.reviewTime.localeCompare(a.reviewTime))
+          .slice(0, max_results || 50);
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  summary: {
+                    answered_scorecards: answered.length,
+                    by_question: averageByQuestion(answered, templates).map((q) => ({
+                      scorecard: q.scorecardName,
+                      question_id: q.questionId,
+                      question: q.questionText,
+                      is_overall: q.isOverall,
+                      average_score: round(q.average, 2),
+                      max_score: q.maxRange,
+                      answers: q.answers,
+                    })),
+                    by_rep: averageByRep(answered, templates)
+                      .map((rep) => ({
+                        user_id: rep.userId,
+                        name: names.get(rep.userId),
+                        scorecards: rep.scorecards,
+                        overall_average: rep.overallAverage !== undefined ? round(rep.overallAverage, 2) : undefined,
+                        average_score: rep.average !== undefined ? round(rep.average, 2) : undefined,
+                        by_question: rep.byQuestion.map((q) => ({
+                          question: questionText.get(q.questionId) ?? q.questionId,
+                          average_score: round(q.average, 2),
+                          answers: q.answers,
+                        })),
+                      }))
+                      .sort((a, b) => (b.overall_average ?? 0) - (a.overall_average ?? 0)),
+                  },
+                  scorecards: listed.map((scorecard) => ({
+                    id: scorecard.answeredScorecardId,
+                    scorecard: scorecard.scorecardName,
+                    call_id: scorecard.callId,
+                    call_date: scorecard.callStartTime,
+                    reviewed_user: names.get(scorecard.reviewedUserId) ?? scorecard.reviewedUserId,
+                    reviewer: names.get(scorecard.reviewerUserId) ?? scorecard.reviewerUserId,
+                    review_time: scorecard.reviewTime,
+                    answers: scorecard.answers.map((answer) => ({
+                      question: questionText.get(answer.questionId) ?? answer.questionId,
+                      score: answer.score,
+                      answer: answer.answerText,
+                      not_applicable: answer.notApplicable || undefined,
+                    })),
+                  })),
+                  truncated: answered.length > listed.length,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return toolError("Error getting answered scorecards", error, {
+          validation: "Check date format: from_date and to_date must be YYYY-MM-DD.",
+        });
+      }
+    }
+  );
+
+  // ============ LIBRARY TOOLS ============
+
+  server.tool(
+    "gong_list_library_folders",
+    "List saved call folders in the Gong library. Useful for finding curated collections of calls.",
+    {},
+    async () => {
+      try {
+        const folders = await gong.listLibraryFolders();
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({ folders }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        return toolError("Error listing library folders", error);
+      }
+    }
+  );
+
+  return server;
+}
+
+// ============ FORMATTING ============
+
+/**
+ * Speaker IDs matching a filter: Internal/External, or a partial name, email or ID
+ */
+function matchSpeakers(speakers: Map<string, ResolvedSpeaker>, filter: string): Set<string> {
+  const needle = filter.toLowerCase();
+  return new Set(
+    [...speakers.values()]
+      .filter((speaker) =>
+        needle === "internal" || needle === "external"
+          ? speaker.affiliation.toLowerCase() === needle
+          : [speaker.speakerId, speaker.label, speaker.email].some((value) => value?.toLowerCase().includes(needle))
+      )
+      .map((speaker) => speaker.speakerId)
+  );
+}
+
+interface TranscriptChunkParams {
+  start_seconds?: number;
+  end_seconds?: number;
+  topic?: string;
+  speaker?: string;
+  output?: "formatted" | "raw" | "both";
+  format?: TranscriptFormat;
+  max_chars?: number;
+  chunk?: number;
+}
+
+function encodeContinuationToken(params: TranscriptChunkParams): string {
+  return Buffer.from(JSON.stringify(params)).toString("base64url");
+}
+
+function decodeContinuationToken(token: string): TranscriptChunkParams {
+  try {
+    return JSON.parse(Buffer.from(token, "base64url").toString("utf8")) as TranscriptChunkParams;
+  } catch {
+    throw new Error("Invalid continuation_token - pass the token exactly as returned by the previous response");
+  }
+}
+
+/**
+ * Collect every record from an iterator. Gong answers 404 instead of an empty page when
+ * nothing matches the filter (e.g. no calls in a date range), which counts as no records.
+ */
+async function collectRecords<T>(records: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  try {
+    for await (const record of records) collected.push(record);
+  } catch (error) {
+    if (!(error instanceof GongNotFoundError)) throw error;
+  }
+  return collected;
+}
+
+interface CallScan {
+  callIds: string[];
+  callsInScope: number;
+  effectiveRange?: { from: string; to: string };
+}
+
+/**
+ * Page cursor for the transcript-scanning tools. It carries the calls chosen for the first
+ * page, so later pages scan the same calls even though the default range moves with the clock.
+ */
+interface ScanCursor extends CallScan {
+  offset: number;
+}
+
+function encodeScanCursor(cursor: ScanCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeScanCursor(token: string): ScanCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(token, "base64url").toString("utf8")) as ScanCursor;
+    if (typeof cursor.offset === "number" && Array.isArray(cursor.callIds)) return cursor;
+  } catch {
+    // Reported below
+  }
+  throw new Error("Invalid cursor - pass the cursor exactly as returned by the previous response");
+}
+
+/**
+ * Calls for a transcript-scanning tool: the given IDs, or the most recent calls in the
+ * date range (default the last 30 days), capped at `max`
+ */
+async function selectCallsToScan(
+  gong: GongClient,
+  options: { callIds?: string[]; fromDate?: string; toDate?: string; max: number }
+): Promise<CallScan> {
+  if (options.callIds && options.callIds.length > 0) {
+    return { callIds: options.callIds.slice(0, options.max), callsInScope: options.callIds.length };
+  }
+
+  const now = new Date();
+  const effectiveRange = {
+    from: options.fromDate || new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString(),
+    to: options.toDate || now.toISOString(),
+  };
+  const callsInRange = await collectRecords(
+    gong.iterateCalls({ fromDateTime: effectiveRange.from, toDateTime: effectiveRange.to }, { maxPages: 10, maxRecords: 1000 })
+  );
+
+  return {
+    callIds: callsInRange
+      .sort((a, b) => b.started.localeCompare(a.started))
+      .slice(0, options.max)
+      .map((call) => call.id),
+    callsInScope: callsInRange.length,
+    effectiveRange,
+  };
+}
+
+/**
+ * Fetch call parties for speaker labelling. Labels are a nicety, so a failed lookup
+ * degrades to "Unknown speaker" labels rather than failing the transcript request.
+ */
+async function getPartiesByCall(gong: GongClient, callIds: string[]): Promise<Map<string, GongParty[]>> {
+  try {
+    const calls = await gong.getCallsExtensive(callIds);
+    return new Map(calls.map((call) => [call.id, call.parties ?? []]));
+  } catch {
+    return new Map();
+  }
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function seconds(ms: number | undefined): number | undefined {
+  return ms === undefined ? undefined : round(ms / 1000, 1);
+}
+
+function percent(ratio: number): number {
+  return Math.round(ratio * 100);
+}
+
+function bySide(values: Record<"Internal" | "External" | "Unknown", number>, map: (value: number) => number = (v) => v) {
+  return { internal: map(values.Internal), external: map(values.External), unknown: map(values.Unknown) };
+}
+
+/**
+ * Display names for user IDs. Like speaker labels, names are a nicety, so a failed
+ * lookup degrades to IDs only.
+ */
+async function getUserNames(gong: GongClient, userIds: string[]): Promise<Map<string, string>> {
+  const ids = [...new Set(userIds)];
+  if (ids.length === 0) return new Map();
+  try {
+    const users = await gong.getUsers(ids);
+    return new Map(users.map((user) => [user.id, fullName(user)]));
+  } catch {
+    return new Map();
+  }
+}
+
+function changeSummary(change: MetricChange) {
+  return {
+    previous: change.previous,
+    change: change.change,
+    change_percent: change.changePercent !== undefined ? round(change.changePercent, 1) : undefined,
+  };
+}
+
+function userSummary(user: GongUser) {
+  return {
+    id: user.id,
+    name: fullName(user),
+    email: user.emailAddress,
+    title: user.title,
+    active: user.active,
+  };
+}
+
+/**
+ * Resolve a manager given by user ID, name or email. When several users tie for the best
+ * match, throw with the candidates instead of picking one.
+ */
+function resolveManager(users: GongUser[], manager: string): GongUser {
+  const byId = users.find((user) => user.id === manager);
+  if (byId) return byId;
+
+  const matches = findUsers(users, manager);
+  if (matches.length === 0) {
+    throw new Error(`No user matches "${manager}". Use gong_find_users to look up the manager.`);
+  }
+
+  const tied = matches.filter((match) => match.score === matches[0].score);
+  if (tied.length > 1) {
+    const candidates = tied.map(({ user }) => `${fullName(user) || "(no name)"} <${user.emailAddress ?? "no email"}> (ID ${user.id})`);
+    throw new Error(`"${manager}" matches ${tied.length} users equally well: ${candidates.join("; ")}. Pass the manager's user ID or email.`);
+  }
+
+  return matches[0].user;
+}
+
+/**
+ * The whole user directory; Gong has no server-side name search
+ */
+async function getAllUsers(gong: GongClient): Promise<GongUser[]> {
+  const users: GongUser[] = [];
+  for await (const user of gong.iterateUsers({ maxPages: 50 })) {
+    users.push(user);
+  }
+  return users;
+}
+
+function emailSummary(email: GongEmail) {
+  return {
+    id: email.id,
+    subject: email.subject,
+    from: email.fromEmailAddress,
+    to: email.toEmailAddresses,
+    cc: email.ccEmailAddresses,
+    sent_time: email.sentTime,
+    direction: email.direction,
+  };
+}
+
+/**
+ * Find an email by ID. Gong has no single-email endpoint, so this pages through the range.
+ */
+async function findEmail(gong: GongClient, emailId: string, fromDate?: string, toDate?: string): Promise<GongEmail | undefined> {
+  const now = new Date();
+  for await (const email of gong.iterateEmails(
+    {
+      fromDateTime: fromDate || new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000).toISOString(),
+      toDateTime: toDate || now.toISOString(),
+    },
+    { maxPages: 50 }
+  )) {
+    if (email.id === emailId) return email;
+  }
+  return undefined;
+}
+
+function isClosedDeal(deal: GongDeal): boolean {
+  const status = deal.status?.toLowerCase();
+  return status === "won" || status === "lost" || status === "closed" || /^closed/i.test(deal.stage ?? "");
+}
+
+/**
+ * Link into the Gong call player at a given offset
+ */
+function callDeepLink(callUrl: string, ms: number): string {
+  const separator = callUrl.includes("?") ? "&" : "?";
+  return `${callUrl}${separator}played=${Math.floor(ms / 1000)}`;
+}
+
+// ============ ERROR HANDLING ============
+
+interface ErrorHints {
+  notFound?: string;
+  validation?: string;
+}
+
+/**
+ * Map an error to an MCP error result with an actionable hint for the model
+ */
+function toolError(message: string, error: unknown, hints: ErrorHints = {}) {
+  const lines: string[] = [];
+
+  if (error instanceof GongApiError) {
+    const detail = error.errors.length > 0 ? error.errors.join("; ") : error.rawBody || "no details";
+    lines.push(`${message}: ${error.name} (HTTP ${error.status}): ${detail}`);
+    lines.push(`Hint: ${hintFor(error, hints)}`);
+    lines.push(`Retryable: ${error.retryable ? "yes" : "no"}`);
+    if (error.requestId) lines.push(`Gong request ID: ${error.requestId}`);
+  } else if (error instanceof GongResponseValidationError) {
+    lines.push(`${message}: ${error.message}`);
+    lines.push("Hint: Gong returned a response in an unexpected format. This is a server-side integration issue, not a problem with the request.");
+  } else {
+    lines.push(`${message}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return {
+    content: [{ type: "text" as const, text: lines.join("\n") }],
+    isError: true,
+  };
+}
+
+function hintFor(error: GongApiError, hints: ErrorHints): string {
+  if (error instanceof GongAuthError) {
+    if (error.endpoint === "/oauth2/generate-customer-token") {
+      return "Gong rejected the OAuth refresh token. Gong rotates it on every refresh, so re-authorize the app and update GONG_OAUTH_REFRESH_TOKEN (or the stored tokens).";
+    }
+    return "Gong rejected the API credentials. Check that GONG_ACCESS_KEY and GONG_ACCESS_KEY_SECRET (or the GONG_OAUTH_* app credentials) are set and not expired.";
+  }
+  if (error instanceof GongPermissionError) {
+    return "The Gong API key lacks permission for this endpoint. A Gong admin must grant the required API scope.";
+  }
+  if (error instanceof GongNotFoundError) {
+    return hints.notFound ?? "No matching records were found. Check the IDs and date range.";
+  }
+  if (error instanceof GongRateLimitError) {
+    const wait = error.retryAfterMs !== undefined ? `Wait ${Math.ceil(error.retryAfterMs / 1000)}s` : "Wait a minute";
+    return `Gong rate limit reached (~1000 requests/hour). ${wait} before retrying, or narrow the date range.`;
+  }
+  if (error instanceof GongValidationError) {
+    return hints.validation ?? "Gong rejected the request parameters. Check date format (ISO 8601, e.g. 2024-01-01T00:00:00Z) and IDs.";
+  }
+  if (error instanceof GongServerError) {
+    return "Gong had a server-side problem. This is usually temporary; try again shortly.";
+  }
+  return "Unexpected response from Gong.";
 }
@@ -0,0 +1,66 @@
+/**
+ * Speaker Resolution
+ * Joins transcript speaker IDs to the call's parties so monologues can be labelled
+ * with a name, title and affiliation instead of a raw numeric ID.
+ */
+
+import type { GongParty, GongTranscript } from "./gong-client.js";
+
+export interface ResolvedSpeaker {
+  speakerId: string;
+  /** Display label, e.g. "Dana Rivera (Account Executive, Internal)" or "Unknown speaker A" */
+  label: string;
+  name?: string;
+  title?: string;
+  email?: string;
+  userId?: string;
+  affiliation: "Internal" | "External" | "Unknown";
+}
+
+/**
+ * Map every speaker ID in the transcript to a resolved speaker.
+ * Speakers without a matching party get stable "Unknown speaker A/B/..." labels,
+ * lettered in order of first appearance.
+ */
+export function resolveSpeakers(transcript: GongTranscript, parties: GongParty[] = []): Map<string, ResolvedSpeaker> {
+  const partiesBySpeaker = new Map(parties.filter((p) => p.speakerId).map((p) => [p.speakerId!, p]));
+  const speakers = new Map<string, ResolvedSpeaker>();
+  let unknownCount = 0;
+
+  for (const { speakerId } of transcript.transcript) {
+    if (speakers.has(speakerId)) continue;
+
+    const party = partiesBySpeaker.get(speakerId);
+    if (party?.name) {
+      const details = [party.title, party.affiliation !== "Unknown" ? party.affiliation : undefined].filter(Boolean);
+      speakers.set(speakerId, {
+        speakerId,
+        label: details.length > 0 ? `${party.name} (${details.join(", ")})` : party.name,
+        name: party.name,
+        title: party.title,
+        email: party.emailAddress,
+        userId: party.userId,
+        affiliation: party.affiliation,
+      });
+    } else {
+      speakers.set(speakerId, {
+        speakerId,
+        label: `Unknown speaker ${unknownLetter(unknownCount++)}`,
+        affiliation: party?.affiliation ?? "Unknown",
+      });
+    }
+  }
+
+  return speakers;
+}
+
+/**
+ * A, B, ..., Z, AA, AB, ...
+ */
+function unknownLetter(index: number): string {
+  let label = "";
+  for (let n = index; n >= 0; n = Math.floor(n / 26) - 1) {
+    label = String.fromCharCode(65 + (n % 26)) + label;
+  }
+  return label;
+}
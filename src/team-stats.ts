@@ -0,0 +1,144 @@
+/**
+ * Team Stats
+ * Rolls per-user activity stats up over a manager's reporting tree: totals and
+ * per-rep averages for the team and each sub-team, per-rep rankings, and the
+ * change against a comparison period.
+ */
+
+import type { GongActivityStats, GongUser, GongUserActivityStats } from "./gong-client.js";
+import { flattenTeam, type TeamNode } from "./user-directory.js";
+
+export type ActivityMetric = keyof GongActivityStats;
+
+export const ACTIVITY_METRICS: ActivityMetric[] = [
+  "callsAsHost",
+  "callsAttended",
+  "callsGaveFeedback",
+  "callsReceivedFeedback",
+  "callsRequestedFeedback",
+  "callsScorecardsFilled",
+  "callsScorecardsReceived",
+  "callsSharedInternally",
+  "callsSharedExternally",
+  "callsCommentsGiven",
+  "callsCommentsReceived",
+  "ownCallsListenedTo",
+  "othersCallsListenedTo",
+];
+
+export interface MetricRollup {
+  total: number;
+  /** Per rep with stats in the period */
+  average: number;
+}
+
+export interface TeamRollup {
+  manager: GongUser;
+  /** Reps counted in the rollup */
+  members: GongUser[];
+  metrics: Partial<Record<ActivityMetric, MetricRollup>>;
+}
+
+export interface RepStats {
+  user: GongUser;
+  metrics: Partial<Record<ActivityMetric, number>>;
+  /** 1 = highest value on the team */
+  ranks: Partial<Record<ActivityMetric, number>>;
+}
+
+export interface MetricChange {
+  current: number;
+  previous: number;
+  change: number;
+  /** Undefined when the previous value is 0 */
+  changePercent?: number;
+}
+
+/**
+ * Totals and averages over a set of reps. Metrics Gong didn't report for anyone are omitted.
+ */
+export function rollupStats(manager: GongUser, members: GongUser[], stats: Map<string, GongActivityStats>): TeamRollup {
+  const reporting = members.filter((user) => stats.has(user.id));
+  const metrics: TeamRollup["metrics"] = {};
+
+  for (const metric of ACTIVITY_METRICS) {
+    const values = reporting.flatMap((user) => stats.get(user.id)?.[metric] ?? []);
+    if (values.length === 0) continue;
+    const total = values.reduce((sum, value) => sum + value, 0);
+    metrics[metric] = { total, average: total / reporting.length };
+  }
+
+  return { manager, members: reporting, metrics };
+}
+
+/**
+ * Rollups for the whole tree under the root and for each sub-team led by one of its reports.
+ * Sub-team leaders count in their own sub-team, since they're reps of the root manager.
+ */
+export function rollupTeam(
+  tree: TeamNode,
+  stats: GongUserActivityStats[],
+  options: { includeManager?: boolean } = {}
+): { team: TeamRollup; subTeams: TeamRollup[]; reps: RepStats[] } {
+  const statsByUser = new Map(stats.map((s) => [s.userId, s.userAggregateActivityStats]));
+  const members = flattenTeam(tree).slice(options.includeManager ? 0 : 1);
+
+  const subTeams = tree.reports
+    .filter((node) => node.reports.length > 0)
+    .map((node) => rollupStats(node.user, flattenTeam(node), statsByUser));
+
+  return {
+    team: rollupStats(tree.user, members, statsByUser),
+    subTeams,
+    reps: rankReps(members, statsByUser),
+  };
+}
+
+/**
+ * Each rep's metrics with their rank on the team (ties share a rank)
+ */
+export function rankReps(members: GongUser[], stats: Map<string, GongActivityStats>): RepStats[] {
+  const reps: RepStats[] = members
+    .filter((user) => stats.has(user.id))
+    .map((user) => {
+      const userStats = stats.get(user.id)!;
+      const metrics: RepStats["metrics"] = {};
+      for (const metric of ACTIVITY_METRICS) {
+        if (userStats[metric] != null) metrics[metric] = userStats[metric];
+      }
+      return { user, metrics, ranks: {} };
+    });
+
+  for (const metric of ACTIVITY_METRICS) {
+    const values = reps.flatMap((rep) => rep.metrics[metric] ?? []).sort((a, b) => b - a);
+    for (const rep of reps) {
+      const value = rep.metrics[metric];
+      if (value !== undefined) rep.ranks[metric] = values.indexOf(value) + 1;
+    }
+  }
+
+  return reps;
+}
+
+export function compareMetric(current: number | undefined, previous: number | undefined): MetricChange {
+  const now = current ?? 0;
+  const before = previous ?? 0;
+  return {
+    current: now,
+    previous: before,
+    change: now - before,
+    changePercent: before !== 0 ? ((now - before) / before) * 100 : undefined,
+  };
+}
+
+/**
+ * The period of equal length immediately before [fromDate, toDate] (inclusive YYYY-MM-DD dates)
+ */
+export function previousPeriod(fromDate: string, toDate: string): { fromDate: string; toDate: string } {
+  const day = 24 * 60 * 60 * 1000;
+  const from = Date.parse(`${fromDate}T00:00:00Z`);
+  const to = Date.parse(`${toDate}T00:00:00Z`);
+  const days = Math.round((to - from) / day) + 1;
+  const isoDate = (ms: number) => new Date(ms).toISOString().split("T")[0];
+  return { fromDate: isoDate(from - days * day), toDate: isoDate(from - day) };
+}
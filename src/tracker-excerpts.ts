@@ -0,0 +1,104 @@
+/**
+ * Tracker Excerpts
+ * Aligns Gong tracker occurrences (bare offsets in seconds) to the transcript, so each
+ * hit comes back as the sentence that triggered it plus the surrounding conversation.
+ */
+
+import type { GongCall, GongTranscript } from "./gong-client.js";
+
+type GongTracker = NonNullable<NonNullable<GongCall["content"]>["trackers"]>[number];
+
+export interface TrackerExcerpt {
+  trackerId: string;
+  trackerName: string;
+  speakerId: string;
+  /** Start of the aligned sentence in milliseconds from the beginning of the call */
+  startMs: number;
+  sentence: string;
+  contextBefore: string[];
+  contextAfter: string[];
+}
+
+interface TimedSentence {
+  speakerId: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Trackers on a call matching an ID (exact) or name (case-insensitive substring)
+ */
+export function matchTrackers(call: GongCall, tracker: string): GongTracker[] {
+  const needle = tracker.toLowerCase();
+  return (call.content?.trackers ?? []).filter(
+    (t) => t.id === tracker || t.name.toLowerCase().includes(needle)
+  );
+}
+
+/**
+ * Build one excerpt per tracker occurrence. Context is every sentence starting within
+ * contextMs of the aligned sentence, on either side.
+ */
+export function extractTrackerExcerpts(
+  transcript: GongTranscript,
+  trackers: GongTracker[],
+  contextMs: number
+): TrackerExcerpt[] {
+  const sentences: TimedSentence[] = transcript.transcript
+    .flatMap((entry) => entry.sentences.map((s) => ({ ...s, speakerId: entry.speakerId })))
+    .sort((a, b) => a.start - b.start);
+  if (sentences.length === 0) return [];
+
+  return trackers.flatMap((tracker) =>
+    (tracker.occurrences ?? []).map((occurrence) => {
+      const index = alignOccurrence(sentences, occurrence.startTime * 1000, occurrence.speakerId);
+      const sentence = sentences[index];
+
+      const before: string[] = [];
+      for (let i = index - 1; i >= 0 && sentence.start - sentences[i].start <= contextMs; i--) {
+        before.unshift(sentences[i].text);
+      }
+      const after: string[] = [];
+      for (let i = index + 1; i < sentences.length && sentences[i].start - sentence.start <= contextMs; i++) {
+        after.push(sentences[i].text);
+      }
+
+      return {
+        trackerId: tracker.id,
+        trackerName: tracker.name,
+        speakerId: sentence.speakerId,
+        startMs: sentence.start,
+        sentence: sentence.text,
+        contextBefore: before,
+        contextAfter: after,
+      };
+    })
+  );
+}
+
+/**
+ * Index of the sentence an occurrence falls in: the sentence spanning the offset,
+ * otherwise the nearest one. Ties prefer the speaker Gong attributed the occurrence to,
+ * then the sentence starting closest to the offset.
+ */
+function alignOccurrence(sentences: TimedSentence[], offsetMs: number, speakerId?: string | null): number {
+  const rank = (s: TimedSentence) => [
+    offsetMs < s.start ? s.start - offsetMs : Math.max(0, offsetMs - s.end),
+    speakerId && s.speakerId !== speakerId ? 1 : 0,
+    Math.abs(s.start - offsetMs),
+  ];
+
+  let best = 0;
+  let bestRank = rank(sentences[0]);
+  for (const [i, s] of sentences.entries()) {
+    const candidate = rank(s);
+    const better = candidate.findIndex((value, k) => value !== bestRank[k]);
+    if (better !== -1 && candidate[better] < bestRank[better]) {
+      best = i;
+      bestRank = candidate;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,137 @@
+/**
+ * Transcript Formatters
+ * Render Gong transcript entries as labelled text, Markdown, SRT, WebVTT or plain text.
+ * Sentence start/end times from Gong are milliseconds from the start of the call.
+ */
+
+import type { GongTranscriptEntry } from "./gong-client.js";
+import type { ResolvedSpeaker } from "./speakers.js";
+
+export type TranscriptFormat = "labelled" | "markdown" | "srt" | "vtt" | "text";
+
+export interface FormatOptions {
+  /** Number of the first SRT/WebVTT cue, so chunks can continue a numbering (default 1) */
+  firstCueNumber?: number;
+}
+
+type Speakers = Map<string, ResolvedSpeaker>;
+
+export function formatTranscript(
+  entries: GongTranscriptEntry[],
+  speakers: Speakers,
+  format: TranscriptFormat = "labelled",
+  options: FormatOptions = {}
+): string {
+  switch (format) {
+    case "markdown":
+      return toMarkdown(entries, speakers);
+    case "srt":
+      return toSrt(entries, speakers, options);
+    case "vtt":
+      return toWebVtt(entries, speakers, options);
+    case "text":
+      return toPlainText(entries, speakers);
+    default:
+      return toLabelled(entries, speakers);
+  }
+}
+
+/**
+ * [Dana Rivera (Account Executive, Internal) - Pricing]: sentence sentence ...
+ */
+export function toLabelled(entries: GongTranscriptEntry[], speakers: Speakers): string {
+  return entries
+    .map((entry) => {
+      const sentences = entry.sentences.map((s) => s.text).join(" ");
+      return `[${speakerLabel(entry, speakers)}${entry.topic ? ` - ${entry.topic}` : ""}]: ${sentences}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Topic sections with a header per monologue: speaker and timestamp
+ */
+export function toMarkdown(entries: GongTranscriptEntry[], speakers: Speakers): string {
+  const blocks: string[] = [];
+  let currentTopic: string | undefined;
+
+  for (const entry of entries) {
+    if (entry.topic && entry.topic !== currentTopic) {
+      blocks.push(`## ${entry.topic}`);
+      currentTopic = entry.topic;
+    }
+    const start = entry.sentences[0]?.start ?? 0;
+    blocks.push(`**${speakerLabel(entry, speakers)}** · \`${formatClock(start)}\``);
+    blocks.push(entry.sentences.map((s) => s.text).join(" "));
+  }
+
+  return blocks.join("\n\n");
+}
+
+/**
+ * One SubRip cue per sentence
+ */
+export function toSrt(entries: GongTranscriptEntry[], speakers: Speakers, options: FormatOptions = {}): string {
+  return cues(entries, speakers)
+    .map((cue, i) => {
+      const range = `${formatCueTime(cue.start, ",")} --> ${formatCueTime(cue.end, ",")}`;
+      return `${(options.firstCueNumber ?? 1) + i}\n${range}\n${cue.speaker}: ${cue.text}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * WebVTT with voice tags so players can style speakers
+ */
+export function toWebVtt(entries: GongTranscriptEntry[], speakers: Speakers, options: FormatOptions = {}): string {
+  const body = cues(entries, speakers)
+    .map((cue, i) => {
+      const range = `${formatCueTime(cue.start, ".")} --> ${formatCueTime(cue.end, ".")}`;
+      return `${(options.firstCueNumber ?? 1) + i}\n${range}\n<v ${cue.speaker}>${cue.text}`;
+    })
+    .join("\n\n");
+  return `WEBVTT\n\n${body}`;
+}
+
+/**
+ * Speaker: text paragraphs without timestamps or topics
+ */
+export function toPlainText(entries: GongTranscriptEntry[], speakers: Speakers): string {
+  return entries
+    .map((entry) => `${speakerName(entry, speakers)}: ${entry.sentences.map((s) => s.text).join(" ")}`)
+    .join("\n\n");
+}
+
+/**
+ * Format milliseconds from call start as h:mm:ss / m:ss
+ */
+export function formatClock(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+function cues(entries: GongTranscriptEntry[], speakers: Speakers) {
+  return entries.flatMap((entry) =>
+    entry.sentences.map((s) => ({ start: s.start, end: s.end, text: s.text, speaker: speakerName(entry, speakers) }))
+  );
+}
+
+/**
+ * hh:mm:ss,mmm (SRT) or hh:mm:ss.mmm (WebVTT)
+ */
+function formatCueTime(ms: number, separator: "," | "."): string {
+  const pad = (value: number, width = 2) => String(Math.floor(value)).padStart(width, "0");
+  return `${pad(ms / 3_600_000)}:${pad((ms / 60_000) % 60)}:${pad((ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+function speakerLabel(entry: GongTranscriptEntry, speakers: Speakers): string {
+  return speakers.get(entry.speakerId)?.label ?? `Speaker ${entry.speakerId}`;
+}
+
+function speakerName(entry: GongTranscriptEntry, speakers: Speakers): string {
+  const speaker = speakers.get(entry.speakerId);
+  return speaker?.name ?? speaker?.label ?? `Speaker ${entry.speakerId}`;
+}
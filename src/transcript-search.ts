@@ -0,0 +1,112 @@
+/**
+ * Transcript Search
+ * Boolean phrase search over Gong transcripts, returning matching sentences with context.
+ *
+ * Query syntax:
+ *   new relic                 - both words (AND is implied between terms)
+ *   "new relic"               - exact phrase
+ *   "new relic" OR datadog    - either side
+ *   pricing AND "new relic"   - explicit AND
+ * AND binds tighter than OR. A group of AND-ed terms is satisfied when every term occurs
+ * somewhere in the call, not necessarily in the same sentence.
+ */
+
+import type { GongTranscript } from "./gong-client.js";
+
+/** OR of AND-groups; each term is a word or phrase */
+export type SearchQuery = string[][];
+
+export interface SearchOptions {
+  caseSensitive?: boolean;
+  /** Match whole words only (default true), so "SSO" does not hit "lesson" */
+  wholeWord?: boolean;
+  /** Sentences of context on each side of a match */
+  contextSentences?: number;
+}
+
+export interface TranscriptMatch {
+  speakerId: string;
+  topic?: string;
+  /** Sentence start in milliseconds from the beginning of the call */
+  startMs: number;
+  sentence: string;
+  matchedTerms: string[];
+  contextBefore: string[];
+  contextAfter: string[];
+}
+
+/**
+ * Parse a query string into OR-of-AND groups
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  const tokens = query.match(/"[^"]*"|\S+/g) ?? [];
+  const groups: SearchQuery = [[]];
+
+  for (const token of tokens) {
+    if (token === "OR") {
+      groups.push([]);
+    } else if (token !== "AND") {
+      // Strip the quotes; an unclosed quote only has the opening one ("new relic -> new, relic)
+      const term = token.startsWith('"') ? token.replace(/^"|"$/g, "").trim() : token;
+      if (term) groups[groups.length - 1].push(term);
+    }
+  }
+
+  return groups.filter((group) => group.length > 0);
+}
+
+/**
+ * Find sentences in a transcript that satisfy the query
+ */
+export function searchTranscript(
+  transcript: GongTranscript,
+  query: SearchQuery,
+  options: SearchOptions = {}
+): TranscriptMatch[] {
+  const { caseSensitive = false, wholeWord = true, contextSentences = 1 } = options;
+
+  const sentences = transcript.transcript.flatMap((entry) =>
+    entry.sentences.map((sentence) => ({ ...sentence, speakerId: entry.speakerId, topic: entry.topic }))
+  );
+
+  const matchers = new Map(
+    query.flat().map((term) => [term, termPattern(term, caseSensitive, wholeWord)] as const)
+  );
+  const hits = sentences.map((sentence) =>
+    [...matchers].filter(([, pattern]) => pattern.test(sentence.text)).map(([term]) => term)
+  );
+
+  // Keep only groups whose terms all occur somewhere in the call
+  const foundTerms = new Set(hits.flat());
+  const activeTerms = new Set(
+    query.filter((group) => group.every((term) => foundTerms.has(term))).flat()
+  );
+  if (activeTerms.size === 0) return [];
+
+  return sentences.flatMap((sentence, index) => {
+    const matchedTerms = hits[index].filter((term) => activeTerms.has(term));
+    if (matchedTerms.length === 0) return [];
+
+    return [
+      {
+        speakerId: sentence.speakerId,
+        topic: sentence.topic,
+        startMs: sentence.start,
+        sentence: sentence.text,
+        matchedTerms,
+        contextBefore: sentences.slice(Math.max(0, index - contextSentences), index).map((s) => s.text),
+        contextAfter: sentences.slice(index + 1, index + 1 + contextSentences).map((s) => s.text),
+      },
+    ];
+  });
+}
+
+function termPattern(term: string, caseSensitive: boolean, wholeWord: boolean): RegExp {
+  // Treat any run of whitespace in a phrase as flexible whitespace ("new  relic" == "new relic")
+  const escaped = term
+    .split(/\s+/)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("\\s+");
+  const source = wholeWord ? `(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])` : escaped;
+  return new RegExp(source, caseSensitive ? "u" : "iu");
+}
@@ -0,0 +1,102 @@
+/**
+ * Transcript Windowing
+ * Narrows a transcript to a time window, topic or set of speakers, and splits the
+ * result into size-bounded chunks so long calls fit in a model's context.
+ */
+
+import type { GongTranscript, GongTranscriptEntry } from "./gong-client.js";
+
+export interface TranscriptFilter {
+  /** Keep sentences starting at or after this offset (ms) */
+  startMs?: number;
+  /** Keep sentences starting before this offset (ms) */
+  endMs?: number;
+  /** Keep monologues whose Gong topic matches (case-insensitive) */
+  topic?: string;
+  /** Keep monologues by these speaker IDs */
+  speakerIds?: Set<string>;
+}
+
+export interface TranscriptChunk {
+  entries: GongTranscriptEntry[];
+  startMs: number;
+  endMs: number;
+  /** Index range of the chunk's sentences within the filtered transcript, inclusive */
+  firstSentence: number;
+  lastSentence: number;
+}
+
+/**
+ * Return the entries matching the filter; monologues straddling the time window are trimmed
+ */
+export function filterTranscript(transcript: GongTranscript, filter: TranscriptFilter): GongTranscriptEntry[] {
+  const topic = filter.topic?.toLowerCase();
+
+  return transcript.transcript.flatMap((entry) => {
+    if (topic && entry.topic?.toLowerCase() !== topic) return [];
+    if (filter.speakerIds && !filter.speakerIds.has(entry.speakerId)) return [];
+
+    const sentences = entry.sentences.filter(
+      (s) => (filter.startMs === undefined || s.start >= filter.startMs) && (filter.endMs === undefined || s.start < filter.endMs)
+    );
+    return sentences.length > 0 ? [{ ...entry, sentences }] : [];
+  });
+}
+
+/**
+ * Split entries into chunks of at most maxChars (as measured by sizeOf).
+ * Chunks break between sentences, so a very long monologue can span chunks;
+ * a single sentence larger than maxChars still gets a chunk of its own.
+ */
+export function chunkTranscript(
+  entries: GongTranscriptEntry[],
+  maxChars: number,
+  sizeOf: (entry: GongTranscriptEntry) => number
+): TranscriptChunk[] {
+  const chunks: TranscriptChunk[] = [];
+  let current: GongTranscriptEntry[] = [];
+  let currentSize = 0;
+  let sentenceIndex = 0;
+  let chunkFirstSentence = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const sentences = current.flatMap((entry) => entry.sentences);
+    chunks.push({
+      entries: current,
+      startMs: sentences[0].start,
+      endMs: sentences[sentences.length - 1].end,
+      firstSentence: chunkFirstSentence,
+      lastSentence: sentenceIndex - 1,
+    });
+    current = [];
+    currentSize = 0;
+    chunkFirstSentence = sentenceIndex;
+  };
+
+  for (const entry of entries) {
+    for (const [i, sentence] of entry.sentences.entries()) {
+      // Sentences after the first of a monologue extend the chunk's copy of that monologue
+      const last = current[current.length - 1];
+      const continuesMonologue = i > 0 && last !== undefined;
+      const candidate = continuesMonologue
+        ? { ...last, sentences: [...last.sentences, sentence] }
+        : { ...entry, sentences: [sentence] };
+      const growth = sizeOf(candidate) - (continuesMonologue ? sizeOf(last) : 0);
+
+      if (currentSize + growth > maxChars && current.length > 0) {
+        flush();
+        current.push({ ...entry, sentences: [sentence] });
+        currentSize = sizeOf(current[0]);
+      } else {
+        if (continuesMonologue) current[current.length - 1] = candidate;
+        else current.push(candidate);
+        currentSize += growth;
+      }
+      sentenceIndex++;
+    }
+  }
+  flush();
+
+  return chunks;
+}
@@ -0,0 +1,123 @@
+/**
+ * User Directory
+ * Fuzzy lookup of Gong users by name or email, and the reporting tree under a manager
+ * built from GongUser.managerId.
+ */
+
+import type { GongUser } from "./gong-client.js";
+
+export interface UserMatch {
+  user: GongUser;
+  /** 0-1, where 1 is an exact name, email or ID match */
+  score: number;
+}
+
+export interface TeamNode {
+  user: GongUser;
+  reports: TeamNode[];
+}
+
+export function fullName(user: GongUser): string {
+  return `${user.firstName ?? ""} ${user.lastName ?? ""}`.trim();
+}
+
+/**
+ * Rank users against a free-text query. Matches on ID, email, full name and name parts,
+ * tolerating small typos ("Priya Sha" finds "Priya Shah", "dana rivra" finds "Dana Rivera").
+ */
+export function findUsers(users: GongUser[], query: string, minScore = 0.6): UserMatch[] {
+  const needle = normalize(query);
+  if (!needle) return [];
+
+  return users
+    .map((user) => ({ user, score: scoreUser(user, needle) }))
+    .filter((match) => match.score >= minScore)
+    .sort((a, b) => b.score - a.score || fullName(a.user).localeCompare(fullName(b.user)));
+}
+
+/**
+ * The reporting tree under a manager. Cycles in manager data are cut rather than followed.
+ */
+export function buildTeamTree(users: GongUser[], managerId: string, maxDepth = Infinity): TeamNode | undefined {
+  const byId = new Map(users.map((user) => [user.id, user]));
+  const reportsByManager = new Map<string, GongUser[]>();
+  for (const user of users) {
+    if (!user.managerId) continue;
+    reportsByManager.set(user.managerId, [...(reportsByManager.get(user.managerId) ?? []), user]);
+  }
+
+  const root = byId.get(managerId);
+  if (!root) return undefined;
+
+  const visited = new Set<string>();
+  const build = (user: GongUser, depth: number): TeamNode => {
+    visited.add(user.id);
+    const reports = depth < maxDepth ? reportsByManager.get(user.id) ?? [] : [];
+    return {
+      user,
+      reports: reports
+        .filter((report) => !visited.has(report.id))
+        .sort((a, b) => fullName(a).localeCompare(fullName(b)))
+        .map((report) => build(report, depth + 1)),
+    };
+  };
+
+  return build(root, 0);
+}
+
+/**
+ * Every user in a tree, root included
+ */
+export function flattenTeam(node: TeamNode): GongUser[] {
+  return [node.user, ...node.reports.flatMap(flattenTeam)];
+}
+
+function scoreUser(user: GongUser, needle: string): number {
+  const name = normalize(fullName(user));
+  const email = user.emailAddress?.toLowerCase() ?? "";
+  const localPart = normalize(email.split("@")[0].replace(/[._-]+/g, " "));
+
+  if (needle === user.id || needle === email || needle === name) return 1;
+  if (name.startsWith(needle) || email.startsWith(needle)) return 0.9;
+  if (name.includes(needle) || email.includes(needle)) return 0.8;
+
+  // Every query word close to some name word, in any order ("rivera dana", "dana rivra")
+  const nameWords = [...new Set([...name.split(" "), ...localPart.split(" ")])].filter(Boolean);
+  const queryWords = needle.split(" ");
+  const wordScores = queryWords.map((word) =>
+    Math.max(
+      0,
+      ...nameWords.map((candidate) => (candidate.startsWith(word) ? 1 : similarity(word, candidate)))
+    )
+  );
+  return Math.min(...wordScores) * 0.75;
+}
+
+function normalize(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * 1 - normalized edit distance, counting an adjacent transposition as one edit
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const d = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return 1 - d[a.length][b.length] / Math.max(a.length, b.length);
+}
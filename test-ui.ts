@@ -5,12 +5,17 @@
  *
  * This script creates an interactive CLI that connects to the MCP server
  * and allows you to test all available tools.
+ *
+ * Pass --mock (or set GONG_MOCK=1) to use the offline mock Gong API instead of production Gong.
  */
 
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
 import * as readline from "readline/promises";
 import { spawn } from "child_process";
+import { startMockGongServer, type MockGongServer } from "./mock-gong-server.js";
+
+const useMock = process.argv.includes("--mock") || process.env.GONG_MOCK === "1";
 
 // ANSI color codes for better output
 const colors = {
@@ -28,6 +33,7 @@ class GongMCPTestUI {
   private client: Client;
   private rl: readline.Interface;
   private availableTools: any[] = [];
+  private mock?: MockGongServer;
 
   constructor() {
     this.client = new Client(
@@ -49,6 +55,18 @@ class GongMCPTestUI {
   async connect() {
     console.log(`${colors.cyan}Connecting to Gong MCP Server...${colors.reset}`);
 
+    if (useMock) {
+      this.mock = await startMockGongServer();
+      process.env.GONG_API_BASE_URL = this.mock.baseUrl;
+      process.env.GONG_ACCESS_KEY = "mock";
+      process.env.GONG_ACCESS_KEY_SECRET = "mock";
+      // OAuth credentials take precedence over the access key, so they would bypass the mock
+      for (const name of Object.keys(process.env).filter((name) => name.startsWith("GONG_OAUTH_"))) {
+        delete process.env[name];
+      }
+      console.log(`${colors.yellow}Using mock Gong API at ${this.mock.baseUrl}${colors.reset}`);
+    }
+
     // Check for required environment variables
     if (!process.env.GONG_ACCESS_KEY || !process.env.GONG_ACCESS_KEY_SECRET) {
       console.error(`${colors.red}Error: GONG_ACCESS_KEY and GONG_ACCESS_KEY_SECRET environment variables are required${colors.reset}`);
@@ -249,6 +267,7 @@ class GongMCPTestUI {
     } catch (error) {
       // Ignore cleanup errors
     }
+    await this.mock?.close();
     this.rl.close();
   }
 }